@@ -3,18 +3,26 @@ pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
 
 import "./ChamaGroup.sol";
 import "./ChamaStructs.sol";
+import "./ChamaPeriods.sol";
+import "./IChamaFactory.sol";
 
 /**
  * @title ChamaFactory
- * @dev Factory contract for deploying and managing ChamaGroup contracts
+ * @dev Factory contract for deploying and managing ChamaGroup contracts, each a clone of one implementation
  */
-contract ChamaFactory is Ownable, Pausable {
+contract ChamaFactory is IChamaFactory, Ownable, Pausable {
   
     using ChamaStructs for *;
-    constructor(address initialOwner) Ownable(initialOwner) {}
+    address public immutable groupImplementation;
+
+    constructor(address initialOwner, address implementation) Ownable(initialOwner) {
+        require(implementation != address(0), "Invalid implementation");
+        groupImplementation = implementation;
+    }
     // Events
     event GroupCreated(
         address indexed creator,
@@ -23,10 +31,12 @@ contract ChamaFactory is Ownable, Pausable {
         uint256 contributionAmount,
         uint256 maxMembers
     );
+    event GroupSettled(address indexed groupAddress, uint256 distributed);
 
     // State variables
     mapping(address => address[]) public creatorGroups;
     mapping(address => bool) public isValidGroup;
+    mapping(address => bool) public isSettledGroup;
     address[] public allGroups;
     uint256 public groupCounter;
 
@@ -36,6 +46,14 @@ contract ChamaFactory is Ownable, Pausable {
     uint256 public constant MAX_CONTRIBUTION_AMOUNT = 100 ether;
     uint256 public constant MIN_MEMBERS = 3;
     uint256 public constant MAX_MEMBERS = 100;
+    uint256 public constant MAX_FINE_BPS = 10000;
+    uint256 public constant MAX_LATE_FEE_BPS = 10000;
+    uint256 public constant MAX_LOAN_INTEREST_BPS = 10000;
+    uint256 public constant MAX_GUARANTORS = 2;
+    uint256 public constant MIN_TIMELOCK_DELAY = 1 days;
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint256 public constant MIN_CREATOR_INACTIVITY_PERIODS = 2;
+    uint256 public constant MAX_CREATOR_INACTIVITY_PERIODS = 12;
 
     /**
      * @dev Creates a new ChamaGroup contract
@@ -43,32 +61,68 @@ contract ChamaFactory is Ownable, Pausable {
      */
     function createGroup(ChamaStructs.GroupConfig memory config) external whenNotPaused {
         require(bytes(config.name).length > 0 && bytes(config.name).length <= 50, "Invalid name length");
-        require(config.contributionAmount >= MIN_CONTRIBUTION_AMOUNT && 
-                config.contributionAmount <= MAX_CONTRIBUTION_AMOUNT, "Invalid contribution amount");
+        if (config.contributionToken == address(0)) {
+            require(config.contributionAmount >= MIN_CONTRIBUTION_AMOUNT && 
+                    config.contributionAmount <= MAX_CONTRIBUTION_AMOUNT, "Invalid contribution amount");
+        } else {
+            // Token decimals vary, so only native bounds are enforced
+            require(config.contributionAmount > 0, "Invalid contribution amount");
+        }
         require(config.maxMembers >= MIN_MEMBERS && config.maxMembers <= MAX_MEMBERS, "Invalid max members");
         require(config.startDate > block.timestamp, "Start date must be in future");
         require(config.endDate > config.startDate, "End date must be after start date");
         require(config.endDate <= block.timestamp + 365 days, "End date too far in future");
+        require(
+            config.contributionFrequency != ChamaStructs.ContributionFrequency.None,
+            "Invalid contribution frequency"
+        );
+        require(
+            config.contributionWindow + config.gracePeriod <= ChamaPeriods.minDuration(config.contributionFrequency),
+            "Contribution window exceeds period"
+        );
+        if (config.fineType == ChamaStructs.FineType.Percentage) {
+            require(config.fineValue > 0 && config.fineValue <= MAX_FINE_BPS, "Invalid fine percentage");
+        } else {
+            require(config.fineValue > 0 && config.fineValue <= config.contributionAmount, "Invalid fine amount");
+        }
+        _validateEscalation(config.escalation);
+        require(config.lateFeeBps <= MAX_LATE_FEE_BPS, "Invalid late fee");
+        if (config.loans.maxLoanBps > 0) {
+            require(
+                config.loans.repaymentPeriods > 0 && config.loans.interestBps <= MAX_LOAN_INTEREST_BPS,
+                "Invalid loan policy"
+            );
+        }
+        require(config.requiredGuarantors <= MAX_GUARANTORS, "Invalid guarantor requirement");
+        // 0 leaves emergency mode to a member vote; admins are added after creation, so the cap is the member cap
+        require(
+            config.emergencyApprovalThreshold == 0 ||
+                (config.emergencyApprovalThreshold >= 2 && config.emergencyApprovalThreshold <= config.maxMembers),
+            "Invalid emergency approval threshold"
+        );
+        require(
+            config.adminApprovalThreshold > 0 && config.adminApprovalThreshold <= config.maxMembers,
+            "Invalid admin approval threshold"
+        );
+        // 0 turns the timelock off; otherwise members need time to open a cancellation vote
+        require(
+            config.timelockDelay == 0 ||
+                (config.timelockDelay >= MIN_TIMELOCK_DELAY && config.timelockDelay <= MAX_TIMELOCK_DELAY),
+            "Invalid timelock delay"
+        );
+        // 0 turns the dead-man switch off; a single idle period would let members oust an active creator
+        require(
+            config.creatorInactivityPeriods == 0 ||
+                (config.creatorInactivityPeriods >= MIN_CREATOR_INACTIVITY_PERIODS &&
+                    config.creatorInactivityPeriods <= MAX_CREATOR_INACTIVITY_PERIODS),
+            "Invalid creator inactivity periods"
+        );
         require(creatorGroups[msg.sender].length < MAX_GROUPS_PER_CREATOR, "Too many groups created");
 
-        ChamaGroup newGroup = new ChamaGroup(
-            config.name,
-            config.contributionAmount,
-            config.maxMembers,
-            config.startDate,
-            config.endDate,
-            config.contributionFrequency,
-            config.punishmentMode,
-            config.approvalRequired,
-            config.emergencyWithdrawAllowed,
-            msg.sender,
-            config.contributionToken,
-            config.gracePeriod,
-            config.contributionWindow
-        );
-        
+        config.creator = msg.sender;
+        address groupAddress = Clones.clone(groupImplementation);
+        ChamaGroup(payable(groupAddress)).initialize(config);
 
-        address groupAddress = address(newGroup);
         creatorGroups[msg.sender].push(groupAddress);
         isValidGroup[groupAddress] = true;
         allGroups.push(groupAddress);
@@ -77,6 +131,30 @@ contract ChamaFactory is Ownable, Pausable {
         emit GroupCreated(msg.sender, groupAddress, config.name, config.contributionAmount, config.maxMembers);
     }
 
+    /**
+     * @dev Escalation thresholds that are set must strictly increase (Warning < Fine < Ban)
+     */
+    function _validateEscalation(ChamaStructs.EscalationPolicy memory policy) internal pure {
+        uint256 previous = 0;
+        uint256[3] memory thresholds = [policy.warningThreshold, policy.fineThreshold, policy.banThreshold];
+        for (uint256 i = 0; i < thresholds.length; i++) {
+            if (thresholds[i] == 0) continue;
+            require(thresholds[i] > previous, "Invalid escalation thresholds");
+            previous = thresholds[i];
+        }
+    }
+
+    /**
+     * @dev Called by a group when it settles, so settlements can be tracked from the factory
+     */
+    function recordGroupSettled(uint256 distributed) external {
+        require(isValidGroup[msg.sender], "Not a valid group");
+        require(!isSettledGroup[msg.sender], "Group already settled");
+
+        isSettledGroup[msg.sender] = true;
+        emit GroupSettled(msg.sender, distributed);
+    }
+
     /**
      * @dev Get groups created by a specific creator
      */
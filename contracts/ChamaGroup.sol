@@ -1,792 +1,629 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
-import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 
-import "./ChamaStructs.sol";
-import "hardhat/console.sol"; 
+import "./ChamaGroupBase.sol";
 
 /**
  * @title Enhanced ChamaGroup
- * @dev Individual group savings contract with token support and advanced features
+ * @dev Individual group savings contract with token support and advanced features. Groups are clones of one
+ * implementation, which runs each call in a feature module through delegatecall
  */
-contract ChamaGroup is ReentrancyGuard, Pausable {
-    using ChamaStructs for *;
-    using SafeERC20 for IERC20;
-
-    // State variables
-    ChamaStructs.GroupRules public rules;
-    mapping(address => ChamaStructs.Member) public members;
-    mapping(address => ChamaStructs.Punishment) public punishments;
-    
-    struct Proposal {
-        ChamaStructs.ProposalType proposalType;
-        address target;
-        uint256 value; // For parameter changes
-        string description;
-        uint256 votesFor;
-        uint256 votesAgainst;
-        uint256 createdAt;
-        bool executed;
-        // FIXED: Removed nested mapping from struct
-    }
-
-    struct PayoutInfo {
-        address recipient;
-        uint256 amount;
-        uint256 timestamp;
-        bool wasSkipped;
-    }
-
-    address[] public payoutQueue;
-    mapping(uint256 => PayoutInfo) public payoutHistory;
-    mapping(address => uint256[]) public memberPayoutPeriods; // Track member payout history
-    
-    mapping(uint256 => Proposal) public proposals;
-    mapping(address => uint256) public lastCheckedPeriod;
-    // FIXED: Moved hasVoted mapping outside of struct
-    mapping(uint256 => mapping(address => bool)) public proposalVotes;
-    mapping(address => mapping(uint256 => uint256)) public contributionTimestamps; // Track when contributions were made
-    mapping(address => bool) public admins;
-    mapping(address => bool) public joinRequests;
-    
-    uint256 public memberCount;
-    uint256 public activeMemberCount; 
-    uint256 public totalFunds;
-    uint256 public currentPeriod;
-    uint256 public skippedPayouts; // Track skipped payouts for rotation adjustment
-
-    address public creator;
-    bool public isActive;
-
-    // Token support
-    IERC20 public contributionToken; // If address(0), use native currency
-    bool public isTokenBased;
-
-    // Enhanced timing controls
-    uint256 public gracePeriod = 2 days; // Grace period for contributions
-    uint256 public contributionWindow = 5 days; // Window within period to contribute
-
-    // Constants
-    uint256 public constant PERIOD_DURATION = 7 days; // Weekly periods
-    uint256 public constant FINE_AMOUNT = 0.01 ether;
-    uint256 public constant MAX_MISSED_CONTRIBUTIONS = 3;
-    uint256 public constant MIN_VOTING_QUORUM = 50; // 50% of active members
-
-    // Proposal settings
-    uint256 public proposalDuration = 3 days;
-    uint256 public proposalCounter;
-
-    // Enhanced events
-    event MemberJoined(address indexed user, uint256 timestamp);
-    event MemberLeft(address indexed user, uint256 refundAmount, uint256 timestamp);
-    event JoinRequestSubmitted(address indexed user, uint256 timestamp);
-    event JoinRequestApproved(address indexed user, address indexed approver);
-    event ContributionMade(address indexed user, uint256 amount, uint256 period, uint256 timestamp);
-    event MemberPunished(address indexed user, string reason, ChamaStructs.PunishmentAction action, uint256 fineAmount);
-    event PunishmentCancelled(address indexed user);
-    event PayoutProcessed(address indexed recipient, uint256 amount, uint256 period, bool wasSkipped);
-    event EmergencyWithdrawTriggered(address indexed admin, uint256 amount);
-    event AdminAdded(address indexed admin);
-    event AdminRemoved(address indexed admin);
-    event FineCollected(address indexed user, uint256 amount);
-    event ProposalCreated(uint256 indexed proposalId, ChamaStructs.ProposalType proposalType, address indexed creator);
-    event ProposalExecuted(uint256 indexed proposalId, bool success);
-    event CreatorTransferred(address indexed oldCreator, address indexed newCreator);
-    event MissedContributionDetected(address indexed user, uint256 period, uint256 timestamp);
-
-
-    // FIXED: Added onlyCreator modifier
-    modifier onlyCreator() {
-        require(msg.sender == creator, "Only creator");
-        _;
-    }
-
-    modifier onlyAdmin() {
-        require(admins[msg.sender], "Not admin");
-        _;
-    }
-
-    modifier onlyActiveMember() {
-        require(members[msg.sender].exists && members[msg.sender].isActive, "Not an active member");
-        _;
-    }
-
-    modifier onlyActiveGroup() {
-        require(isActive, "Group is not active");
-        require(block.timestamp >= rules.startDate, "Group hasn't started");
-        require(block.timestamp <= rules.endDate, "Group has ended");
-        _;
-    }
-
-    /**
-     * @dev Enhanced Constructor with token support
+contract ChamaGroup is ChamaGroupBase, Initializable {
+    // Feature modules, fixed in the implementation's code and so shared by every clone
+    enum Module {
+        Membership,
+        Administration,
+        Contributions,
+        Discipline,
+        Payouts,
+        Slots,
+        Lending,
+        Governance,
+        Settlement,
+        Views
+    }
+
+    // Prefix of the self-call that _delegateView makes; no function has this selector
+    bytes4 private constant VIEW_CALL = bytes4(keccak256("ChamaGroup.view"));
+
+    address private immutable _membershipModule;
+    address private immutable _administrationModule;
+    address private immutable _contributionsModule;
+    address private immutable _disciplineModule;
+    address private immutable _payoutsModule;
+    address private immutable _slotsModule;
+    address private immutable _lendingModule;
+    address private immutable _governanceModule;
+    address private immutable _settlementModule;
+    address private immutable _viewsModule;
+
+    /**
+     * @dev Deploy the implementation that groups are cloned from
      */
     constructor(
-        string memory _name,
-        uint256 _contributionAmount,
-        uint256 _maxMembers,
-        uint256 _startDate,
-        uint256 _endDate,
-        string memory _contributionFrequency,
-        ChamaStructs.PunishmentAction _punishmentMode,
-        bool _approvalRequired,
-        bool _emergencyWithdrawAllowed,
-        address _creator,
-        address _contributionToken, // address(0) for native currency
-        uint256 _gracePeriod,
-        uint256 _contributionWindow
+        address membershipModule,
+        address administrationModule,
+        address contributionsModule,
+        address disciplineModule,
+        address payoutsModule,
+        address slotsModule,
+        address lendingModule,
+        address governanceModule,
+        address settlementModule,
+        address viewsModule
     ) {
+        _membershipModule = membershipModule;
+        _administrationModule = administrationModule;
+        _contributionsModule = contributionsModule;
+        _disciplineModule = disciplineModule;
+        _payoutsModule = payoutsModule;
+        _slotsModule = slotsModule;
+        _lendingModule = lendingModule;
+        _governanceModule = governanceModule;
+        _settlementModule = settlementModule;
+        _viewsModule = viewsModule;
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Set up a freshly cloned group; the factory calls this once, right after cloning
+     * @param config Group configuration validated by the factory (contributionToken is address(0) for native currency)
+     */
+    function initialize(ChamaStructs.GroupConfig memory config) external initializer {
         rules = ChamaStructs.GroupRules({
-            name: _name,
-            contributionAmount: _contributionAmount,
-            contributionFrequency: _contributionFrequency,
-            maxMembers: _maxMembers,
-            startDate: _startDate,
-            endDate: _endDate,
-            punishmentMode: _punishmentMode,
-            approvalRequired: _approvalRequired,
-            emergencyWithdrawAllowed: _emergencyWithdrawAllowed
+            name: config.name,
+            contributionAmount: config.contributionAmount,
+            contributionFrequency: config.contributionFrequency,
+            maxMembers: config.maxMembers,
+            startDate: config.startDate,
+            endDate: config.endDate,
+            punishmentMode: config.punishmentMode,
+            approvalRequired: config.approvalRequired,
+            emergencyWithdrawAllowed: config.emergencyWithdrawAllowed
         });
 
+        factory = msg.sender;
+
+        address _creator = config.creator;
         creator = _creator;
         admins[_creator] = true;
+        adminCount = 1;
         members[_creator] = ChamaStructs.Member({
             exists: true,
             isActive: true,
             joinedAt: block.timestamp,
             totalContributed: 0,
             missedContributions: 0,
-            consecutiveFines: 0
+            consecutiveFines: 0,
+            cleanStreak: 0,
+            shares: 1
         });
         memberCount++;
-        activeMemberCount++;
+        _countActive(_creator);
+        memberList.push(_creator);
+        lastCheckedPeriod[_creator] = type(uint256).max;
 
         isActive = true;
         currentPeriod = 0;
 
         // Token 
-        if (_contributionToken != address(0)) {
-            contributionToken = IERC20(_contributionToken);
+        if (config.contributionToken != address(0)) {
+            contributionToken = IERC20(config.contributionToken);
             isTokenBased = true;
         }
 
         // Timing configuration
-        if (_gracePeriod > 0) gracePeriod = _gracePeriod;
-        if (_contributionWindow > 0) contributionWindow = _contributionWindow;
+        gracePeriod = config.gracePeriod > 0 ? config.gracePeriod : 2 days;
+        contributionWindow = config.contributionWindow > 0 ? config.contributionWindow : 5 days;
+        proposalDuration = 3 days;
+
+        // Defaults are sized for weekly periods; trim them to fit shorter ones
+        uint256 shortestPeriod = ChamaPeriods.minDuration(config.contributionFrequency);
+        if (contributionWindow + gracePeriod > shortestPeriod && config.gracePeriod == 0) gracePeriod = 0;
+        if (contributionWindow + gracePeriod > shortestPeriod) contributionWindow = shortestPeriod - gracePeriod;
+
+        // Fines are denominated in the contribution currency
+        fineType = config.fineType;
+        fineValue = config.fineValue;
+        escalationPolicy = config.escalation;
+        lateFeeBps = config.lateFeeBps;
+        loanPolicy = config.loans;
+        requiredGuarantors = config.requiredGuarantors;
+        joinDeposit = config.joinDeposit;
+        distributeSlashedDeposits = config.distributeSlashedDeposits;
+        payoutOrdering = config.payoutOrdering;
+        shortfallPolicy = config.shortfallPolicy;
+        netDebtsFromPayouts = config.netDebtsFromPayouts;
+        emergencyApprovalThreshold = config.emergencyApprovalThreshold;
+        adminApprovalThreshold = config.adminApprovalThreshold;
+        timelockDelay = config.timelockDelay;
+        creatorInactivityPeriods = config.creatorInactivityPeriods;
     }
 
     // FIXED: Added fallback and receive functions
     receive() external payable {}
-    fallback() external payable {}
+    fallback() external payable {
+        // A view call that _delegateView routed back to the group runs in the views module
+        if (msg.sender == address(this) && msg.sig == VIEW_CALL) _delegate(Module.Views, 4);
+    }
 
     /**
-     * @dev Transfer creator role (creator only)
+     * @dev Offer the creator role to an active member (creator only); it passes once they accept
      */
-    function transferCreator(address newCreator) external onlyCreator {
-        require(newCreator != address(0), "Invalid address");
-        require(newCreator != creator, "Already creator");
-        
-        address oldCreator = creator;
-        creator = newCreator;
-        
-        // Transfer admin rights
-        admins[newCreator] = true;
-        // Optionally remove old creator's admin rights
-        // admins[oldCreator] = false;
-        
-        emit CreatorTransferred(oldCreator, newCreator);
+    function transferCreator(address /* newCreator */, bool /* revokeOldAdmin */) external {
+        _delegate(Module.Administration);
     }
 
     /**
-     * @dev Join group (with or without approval)
+     * @dev Withdraw a pending creator transfer (creator only)
      */
-    function joinGroup() external onlyActiveGroup {
-        require(!members[msg.sender].exists, "Already a member");
-        require(memberCount < rules.maxMembers, "Group is full");
-        require(!punishments[msg.sender].isActive, "User has active punishment");
+    function cancelCreatorTransfer() external {
+        _delegate(Module.Administration);
+    }
 
-        if (rules.approvalRequired) {
-            require(!joinRequests[msg.sender], "Join request already submitted");
-            joinRequests[msg.sender] = true;
-            emit JoinRequestSubmitted(msg.sender, block.timestamp);
-        } else {
-            _addMember(msg.sender);
-        }
+    /**
+     * @dev Accept a creator role offered to the caller
+     */
+    function acceptCreatorTransfer() external {
+        _delegate(Module.Administration);
     }
 
     /**
-     * @dev Leave group with potential refund
+     * @dev Record that the creator is still around (creator only)
      */
-    function leaveGroup() external onlyActiveMember nonReentrant {
-        address user = msg.sender;
-        require(!punishments[user].isActive, "Cannot leave with active punishment");
-        
-        uint256 refundAmount = _calculateRefund(user);
-        
-        // FIXED: Zero state before transfer for extra reentrancy protection
-        members[user].isActive = false;
-        activeMemberCount--;
-        
-        // Process refund if applicable
-        if (refundAmount > 0) {
-            totalFunds -= refundAmount;
-            _transferFunds(user, refundAmount);
-        }
-        
-        emit MemberLeft(user, refundAmount, block.timestamp);
+    function checkIn() external {
+        _delegate(Module.Administration);
     }
 
     /**
-     * @dev Calculate refund amount for leaving member
+     * @dev Whether the creator has been idle long enough for members to vote in a replacement
      */
-    function _calculateRefund(address user) internal view returns (uint256) {
-        // Check if member has received payout
-        if (memberPayoutPeriods[user].length > 0) {
-            return 0; // No refund if already received payout
-        }
-        
-        // Return their total contributions minus any fines
-        uint256 totalContributed = members[user].totalContributed;
-        uint256 fineDeductions = members[user].missedContributions * FINE_AMOUNT;
-        
-        if (totalContributed > fineDeductions) {
-            return totalContributed - fineDeductions;
-        }
-        return 0;
+    function isCreatorInactive() external view returns (bool) {
+        _delegateView();
     }
 
     /**
-     * @dev Approve join request (admin only)
+     * @dev Join group (with or without approval), escrowing the join deposit if the group has one
      */
-    function approveJoinRequest(address user) external onlyAdmin onlyActiveGroup {
-        require(joinRequests[user], "No join request found");
-        require(memberCount < rules.maxMembers, "Group is full");
-        
-        joinRequests[user] = false;
-        _addMember(user);
-        
-        emit JoinRequestApproved(user, msg.sender);
+    function joinGroup() external payable {
+        _delegate(Module.Membership);
     }
 
     /**
-     * @dev Internal function to add member
+     * @dev Join holding several shares of the rotation, or none to co-own another member's slot
      */
-    function _addMember(address user) internal {
-        members[user] = ChamaStructs.Member({
-            exists: true,
-            isActive: true,
-            joinedAt: block.timestamp,
-            totalContributed: 0,
-            missedContributions: 0,
-            consecutiveFines: 0
-        });
-        memberCount++;
-        lastCheckedPeriod[user] = type(uint256).max;
+    function joinGroupWithShares(uint256 /* shares */) external payable {
+        _delegate(Module.Membership);
+    }
+
+    /**
+     * @dev Withdraw a pending join request and its deposit
+     */
+    function cancelJoinRequest() external {
+        _delegate(Module.Membership);
+    }
+
+    /**
+     * @dev Reclaim the join deposit once the group has ended
+     */
+    function claimDeposit() external {
+        _delegate(Module.Membership);
+    }
 
-        activeMemberCount++;
-        emit MemberJoined(user, block.timestamp);
+    /**
+     * @dev Leave group with potential refund
+     */
+    function leaveGroup() external {
+        _delegate(Module.Membership);
+    }
+
+    /**
+     * @dev Approve join request (admin only)
+     */
+    function approveJoinRequest(address /* user */) external {
+        _delegate(Module.Membership);
     }
 
     /**
      * @dev Set payout queue (creator only)
      */
-    function setPayoutQueue(address[] calldata queue) external onlyCreator {
-        require(payoutQueue.length == 0, "Queue is already set");
-        require(queue.length == memberCount, "Invalid queue length");
-        
-        for (uint i = 0; i < queue.length; i++) {
-            require(members[queue[i]].exists, "Invalid member in queue");
-        }
-        payoutQueue = queue;
+    function setPayoutQueue(address[] calldata /* queue */) external {
+        _delegate(Module.Slots);
+    }
+
+    /**
+     * @dev Offer to share the caller's single-share slot with a member holding no shares,
+     * who then pays and receives coOwnerBps of each contribution and payout
+     */
+    function offerSlotSplit(address /* coOwner */, uint256 /* coOwnerBps */) external {
+        _delegate(Module.Slots);
+    }
+
+    /**
+     * @dev Accept a co-ownership offer, taking on the offered share of the primary's slot
+     */
+    function acceptSlotSplit(address /* primary */) external {
+        _delegate(Module.Slots);
     }
 
     /**
      * @dev Enhanced contribution with token support and timing validation
      */
-   function contribute() external payable onlyActiveMember onlyActiveGroup nonReentrant {
-    uint256 period = getCurrentPeriod();
-    require(contributionTimestamps[msg.sender][period] == 0, "Already contributed this period");
-
-    // Check and punish for any missed previous periods
-    checkAndPunishMissedContributions(msg.sender);
-    
-    // If member got banned due to missed contributions, they can't contribute
-    require(members[msg.sender].isActive, "Member is not active (possibly banned for missed contributions)");
-    
-    // Check if within contribution window
-    uint256 periodStart = rules.startDate + (period * PERIOD_DURATION);
-    require(
-        block.timestamp <= periodStart + contributionWindow + gracePeriod,
-        "Contribution window closed"
-    );
-
-    if (isTokenBased) {
-        require(msg.value == 0, "Don't send ETH for token contributions");
-        contributionToken.safeTransferFrom(msg.sender, address(this), rules.contributionAmount);
-    } else {
-        require(msg.value == rules.contributionAmount, "Incorrect contribution amount");
-    }
-
-    contributionTimestamps[msg.sender][period] = block.timestamp;
-    members[msg.sender].totalContributed += rules.contributionAmount;
-    totalFunds += rules.contributionAmount;
-
-    emit ContributionMade(msg.sender, rules.contributionAmount, period, block.timestamp);
-}
+    function contribute() external payable {
+        _delegate(Module.Contributions);
+    }
+
+    /**
+     * @dev Pay part of the current period's contribution; the period is fulfilled once the full amount is reached
+     */
+    function contributeInstallment(uint256 /* amount */) external payable {
+        _delegate(Module.Contributions);
+    }
+
+    /**
+     * @dev Pay the next n unpaid periods up front, starting with the current one if its window is open
+     * Prepaid periods are recorded in contributionTimestamps, so payouts and missed checks treat them as paid
+     */
+    function prepayContributions(uint256 /* periods */) external payable {
+        _delegate(Module.Contributions);
+    }
+
+    /**
+     * @dev Settle a missed past period with the contribution plus the late fee
+     */
+    function payArrears(uint256 /* period */) external payable {
+        _delegate(Module.Contributions);
+    }
 
     /**
      * @dev Admin function to manually check missed contributions for any member
      * This replaces the existing checkMissedContribution function
      */
-    function checkMissedContribution(address user) external onlyAdmin {
-        checkAndPunishMissedContributions(user);
+    function checkMissedContribution(address /* user */) external {
+        _delegate(Module.Discipline);
     }
 
     /**
      * @dev Batch check missed contributions for multiple members (gas efficient)
      */
-    function batchCheckMissedContributions(address[] calldata users) external onlyAdmin {
-        for (uint256 i = 0; i < users.length; i++) {
-            checkAndPunishMissedContributions(users[i]);
-        }
+    function batchCheckMissedContributions(address[] calldata /* users */) external {
+        _delegate(Module.Discipline);
     }
 
     /**
      * @dev Get missed periods for a member (view function for debugging)
+     * Periods paid only in part by the deadline are reported as missed
      */
-    function getMissedPeriods(address user) external view returns (uint256[] memory) {
-        if (!members[user].exists) {
-            return new uint256[](0);
-        }
-        
-        uint256 currenPeriod = getCurrentPeriod();
-        uint256[] memory missedPeriods = new uint256[](currenPeriod);
-        uint256 missedCount = 0;
-        
-        for (uint256 period = 0; period < currenPeriod; period++) {
-            uint256 periodStart = rules.startDate + (period * PERIOD_DURATION);
-            uint256 deadline = periodStart + contributionWindow + gracePeriod;
-            
-            if (block.timestamp > deadline && contributionTimestamps[user][period] == 0) {
-                missedPeriods[missedCount] = period;
-                missedCount++;
-            }
-        }
-        
-        // Resize array to actual missed count
-        uint256[] memory result = new uint256[](missedCount);
-        for (uint256 i = 0; i < missedCount; i++) {
-            result[i] = missedPeriods[i];
-        }
-        
-        return result;
+    function getMissedPeriods(address /* user */) external view returns (uint256[] memory) {
+        _delegateView();
     }
 
     /**
      * @dev Reset last checked period (admin only - for emergency cases)
      */
-    function resetLastCheckedPeriod(address user, uint256 period) external onlyAdmin {
-        require(period <= getCurrentPeriod(), "Cannot set future period");
-        lastCheckedPeriod[user] = period;
+    function resetLastCheckedPeriod(address /* user */, uint256 /* period */) external {
+        _delegate(Module.Discipline);
     }
 
     /**
      * @dev Enhanced fine payment with token support
      */
-    function payFine() external payable nonReentrant {
-        ChamaStructs.Punishment storage punishment = punishments[msg.sender];
-        require(punishment.isActive, "No active punishment");
-        require(punishment.action == ChamaStructs.PunishmentAction.Fine, "Not a fine punishment");
-
-        uint256 fineAmount = punishment.fineAmount;
-        
-        if (isTokenBased) {
-            require(msg.value == 0, "Don't send ETH for token fines");
-            contributionToken.safeTransferFrom(msg.sender, address(this), fineAmount);
-        } else {
-            require(msg.value == fineAmount, "Incorrect fine amount");
-        }
-
-        punishment.isActive = false;
-        members[msg.sender].consecutiveFines = 0;
-        totalFunds += fineAmount;
-        
-        emit FineCollected(msg.sender, fineAmount);
-    }
-
-    /**
-     * @dev Enhanced missed contribution check with timing validation
-     */
-function checkAndPunishMissedContributions(address user) internal {
-    if (!members[user].exists || !members[user].isActive) return;
-
-    uint256 currPeriod = getCurrentPeriod();
-    uint256 lastChecked = lastCheckedPeriod[user];
-    
-    // Handle both cases: properly initialized (max) and improperly initialized (0)
-    uint256 startPeriod;
-    if (lastChecked == type(uint256).max) {
-        // Properly initialized - start from period 0
-        startPeriod = 0;
-    } else if (lastChecked == 0 && members[user].totalContributed == 0) {
-        // Member never contributed and lastChecked is 0 - likely initialization issue
-        // Start from period 0
-        startPeriod = 0;
-    } else {
-        // Normal case - start from next period after last checked
-        startPeriod = lastChecked + 1;
-    }
-    
-    console.log("Debug - currPeriod:", currPeriod);
-    console.log("Debug - lastChecked:", lastChecked);
-    console.log("Debug - startPeriod:", startPeriod);
-    
-    for (uint256 period = startPeriod; period < currPeriod; period++) {
-        uint256 periodStart = rules.startDate + (period * PERIOD_DURATION);
-        uint256 deadline = periodStart + contributionWindow + gracePeriod;
-        
-        console.log("Debug - Checking period:", period);
-        console.log("Debug - Period deadline:", deadline);
-        console.log("Debug - Current timestamp:", block.timestamp);
-        console.log("Debug - Is past deadline:", block.timestamp > deadline);
-        console.log("Debug - Has contribution:", contributionTimestamps[user][period] != 0);
-        
-        if (block.timestamp > deadline && contributionTimestamps[user][period] == 0) {
-            members[user].missedContributions++;
-            console.log("Debug - Missed contribution detected for period:", period);
-            console.log("Debug - Total missed contributions:", members[user].missedContributions);
-            emit MissedContributionDetected(user, period, block.timestamp);
-            
-            if (members[user].missedContributions >= MAX_MISSED_CONTRIBUTIONS) {
-                console.log("Debug - Applying punishment - max missed reached");
-                _applyPunishment(user, "Exceeded maximum missed contributions");
-                break;
-            }
-        }
+    function payFine() external payable {
+        _delegate(Module.Discipline);
     }
-    
-    if (currPeriod > 0) {
-        lastCheckedPeriod[user] = currPeriod - 1;
-        console.log("Debug - Updated lastCheckedPeriod to:", currPeriod - 1);
+
+    /**
+     * @dev Pay the current period's pot to the member picked by the group's payout ordering, skipping ineligible members
+     */
+    function processRotationPayout() external {
+        _delegate(Module.Payouts);
     }
-}
 
+    /**
+     * @dev Process the payout for a past period that was held up, e.g. until arrears were settled
+     */
+    function processPastRotationPayout(uint256 /* period */) external {
+        _delegate(Module.Payouts);
+    }
 
     /**
-     * @dev Enhanced punishment system
+     * @dev Commit to a secret for this period's random draw (RandomDraw groups, during the contribution window)
      */
-    function _applyPunishment(address user, string memory reason) internal {
-        if (rules.punishmentMode == ChamaStructs.PunishmentAction.None) return;
+    function commitDrawSeed(bytes32 /* commitment */) external {
+        _delegate(Module.Payouts);
+    }
 
-        uint256 fineAmount = 0;
-        ChamaStructs.PunishmentAction action = rules.punishmentMode;
+    /**
+     * @dev Reveal a committed secret between the close of the contribution window and the reveal deadline;
+     * every reveal changes the seed
+     */
+    function revealDrawSeed(bytes32 /* secret */) external {
+        _delegate(Module.Payouts);
+    }
 
-        if (action == ChamaStructs.PunishmentAction.Fine) {
-            fineAmount = FINE_AMOUNT;
-            members[user].consecutiveFines++;
+    /**
+     * @dev Offer to take this period's pot early for less (Auction groups); the highest discount wins
+     */
+    function placePayoutBid(uint256 /* discount */) external {
+        _delegate(Module.Payouts);
+    }
 
-            // Escalate to ban after 3 consecutive fines
-            if (members[user].consecutiveFines >= 3) {
-                action = ChamaStructs.PunishmentAction.Ban;
-                members[user].isActive = false;
-                activeMemberCount--;
-            }
-        } else if (action == ChamaStructs.PunishmentAction.Ban) {
-            members[user].isActive = false;
-            activeMemberCount--;
-            members[user].consecutiveFines = 0; // reset
-        }
+    /**
+     * @dev Vote for the member in greatest need to receive this period's pot (Vote groups)
+     */
+    function voteForRecipient(address /* candidate */) external {
+        _delegate(Module.Payouts);
+    }
 
-        punishments[user] = ChamaStructs.Punishment({
-            action: action,
-            reason: reason,
-            isActive: true,
-            issuedAt: block.timestamp,
-            fineAmount: fineAmount
-        });
+    /**
+     * @dev Offer to trade places in the rotation with another member; both must still be waiting for a payout
+     */
+    function offerPayoutSwap(address /* counterparty */) external {
+        _delegate(Module.Slots);
+    }
 
-        emit MemberPunished(user, reason, action, fineAmount);
+    /**
+     * @dev Withdraw the caller's open swap offer
+     */
+    function cancelPayoutSwap() external {
+        _delegate(Module.Slots);
     }
 
     /**
-     * @dev Enhanced rotation payout with skip handling
+     * @dev Accept a swap offered to the caller, exchanging the two members' places in the rotation
      */
-    function processRotationPayout() external onlyAdmin onlyActiveGroup nonReentrant {
-        uint256 period = getCurrentPeriod();
-        require(payoutHistory[period].recipient == address(0), "Already processed this period");
+    function acceptPayoutSwap(address /* offerer */) external {
+        _delegate(Module.Slots);
+    }
 
-        // Verify all active members contributed
-        _verifyAllContributions(period);
+    /**
+     * @dev Withdraw payments credited to the caller
+     */
+    function withdraw() external {
+        _delegate(Module.Settlement);
+    }
 
-        uint256 adjustedPeriod = (period - skippedPayouts) % payoutQueue.length;
-        address recipient = payoutQueue[adjustedPeriod];
-        bool wasSkipped = false;
+    /**
+     * @dev Opt in or out of having payments credited instead of pushed
+     */
+    function setPullPayments(bool /* enabled */) external {
+        _delegate(Module.Settlement);
+    }
 
-        // Skip if member is banned or has unpaid fine
-        if (!members[recipient].isActive || punishments[recipient].isActive) {
-            wasSkipped = true;
-            skippedPayouts++;
-            
-            // Find next eligible member
-            recipient = _findNextEligibleRecipient(adjustedPeriod);
-            require(recipient != address(0), "No eligible recipients");
-        }
+    /**
+     * @dev Request a loan from the pooled fund, to be approved by an admin or an ApproveLoan proposal
+     */
+    function requestLoan(uint256 /* amount */) external returns (uint256) {
+        _delegate(Module.Lending);
+    }
 
-        uint256 payoutAmount = rules.contributionAmount * activeMemberCount;
-        totalFunds -= payoutAmount;
+    /**
+     * @dev Approve and disburse a loan request (admin only, not for the admin's own loan)
+     */
+    function approveLoan(uint256 /* loanId */) external {
+        _delegate(Module.Lending);
+    }
 
-        // Record payout
-        payoutHistory[period] = PayoutInfo({
-            recipient: recipient,
-            amount: payoutAmount,
-            timestamp: block.timestamp,
-            wasSkipped: wasSkipped
-        });
+    /**
+     * @dev Reject a loan request (admin) or withdraw it (borrower)
+     */
+    function rejectLoan(uint256 /* loanId */) external {
+        _delegate(Module.Lending);
+    }
 
-        // Track member payout history
-        memberPayoutPeriods[recipient].push(period);
+    /**
+     * @dev Repay part or all of the caller's outstanding loan; interest stays in the pool
+     */
+    function repayLoan(uint256 /* amount */) external payable {
+        _delegate(Module.Lending);
+    }
 
-        _transferFunds(recipient, payoutAmount);
-        emit PayoutProcessed(recipient, payoutAmount, period, wasSkipped);
+    /**
+     * @dev Mark a loan defaulted once an installment from a finished period is unpaid, and punish the borrower
+     */
+    function checkLoanDefault(uint256 /* loanId */) external {
+        _delegate(Module.Lending);
     }
 
     /**
-     * @dev Find next eligible recipient for payout
+     * @dev Ask an active member to guarantee the caller
      */
-    function _findNextEligibleRecipient(uint256 startIndex) internal view returns (address) {
-        for (uint256 i = 1; i < payoutQueue.length; i++) {
-            uint256 nextIndex = (startIndex + i) % payoutQueue.length;
-            address candidate = payoutQueue[nextIndex];
-            
-            if (members[candidate].isActive && !punishments[candidate].isActive) {
-                return candidate;
-            }
-        }
-        return address(0);
+    function nominateGuarantor(address /* guarantor */) external {
+        _delegate(Module.Lending);
     }
 
     /**
-     * @dev Verify all active members contributed for the period
-     * FIXED: Made more gas efficient by checking active status first
+     * @dev Consent to guarantee a member who nominated the caller
      */
-    function _verifyAllContributions(uint256 period) internal view {
-        for (uint i = 0; i < payoutQueue.length; i++) {
-            address member = payoutQueue[i];
-            if (members[member].isActive && !punishments[member].isActive) {
-                require(
-                    contributionTimestamps[member][period] > 0,
-                    "Member has not contributed yet"
-                );
-            }
-        }
+    function acceptGuarantee(address /* member */) external {
+        _delegate(Module.Lending);
     }
 
     /**
-     * @dev Transfer funds (native or token)
+     * @dev Withdraw a nomination or guarantee (member or guarantor). Accepted guarantees
+     * can't be revoked once the member has been paid out or has a loan.
      */
-    function _transferFunds(address to, uint256 amount) internal {
-        if (isTokenBased) {
-            contributionToken.safeTransfer(to, amount);
-        } else {
-            (bool success, ) = payable(to).call{value: amount}("");
-            require(success, "Transfer failed");
-        }
+    function revokeGuarantee(address /* member */, address /* guarantor */) external {
+        _delegate(Module.Lending);
     }
 
     /**
      * @dev Enhanced proposal creation
      */
     function createProposal(
-        ChamaStructs.ProposalType proposalType,
-        address target,
-        uint256 value,
-        string calldata description
-    ) external onlyActiveMember returns (uint256) {
-        proposalCounter++;
-        Proposal storage p = proposals[proposalCounter];
-        
-        p.proposalType = proposalType;
-        p.target = target;
-        p.value = value;
-        p.description = description;
-        p.createdAt = block.timestamp;
-
-        emit ProposalCreated(proposalCounter, proposalType, msg.sender);
-        return proposalCounter;
+        ChamaStructs.ProposalType /* proposalType */,
+        address /* target */,
+        uint256 /* value */,
+        string calldata /* description */
+    ) external returns (uint256) {
+        _delegate(Module.Governance);
     }
 
     /**
      * @dev Vote on proposal
      * FIXED: Updated to use external mapping
      */
-    function voteOnProposal(uint256 proposalId, bool support) external onlyActiveMember {
-        Proposal storage p = proposals[proposalId];
-        require(!p.executed, "Already executed");
-        require(block.timestamp <= p.createdAt + proposalDuration, "Voting period over");
-        require(!proposalVotes[proposalId][msg.sender], "Already voted");
-
-        proposalVotes[proposalId][msg.sender] = true;
-
-        if (support) {
-            p.votesFor++;
-        } else {
-            p.votesAgainst++;
-        }
+    function voteOnProposal(uint256 /* proposalId */, bool /* support */) external {
+        _delegate(Module.Governance);
     }
 
     /**
      * @dev Enhanced proposal execution
      * FIXED: Improved quorum calculation to avoid rounding to zero
      */
-    function executeProposal(uint256 proposalId) external onlyAdmin {
-        Proposal storage p = proposals[proposalId];
-        require(!p.executed, "Already executed");
-        require(block.timestamp > p.createdAt + proposalDuration, "Voting still active");
-        
-        uint256 totalVotes = p.votesFor + p.votesAgainst;
-        uint256 activeMembers = getActiveMemberCount();
-        
-        // FIXED: Use ceiling division to avoid rounding to zero
-        uint256 requiredVotes = (activeMembers * MIN_VOTING_QUORUM + 99) / 100;
-        require(totalVotes >= requiredVotes, "Insufficient participation");
-        require(p.votesFor > p.votesAgainst, "Proposal rejected");
-        
-        bool success = _executeProposalAction(p);
-        p.executed = true;
-        
-        emit ProposalExecuted(proposalId, success);
-    }
-
-    /**
-     * @dev Execute specific proposal actions
-     */
-    function _executeProposalAction(Proposal storage p) internal returns (bool) {
-        if (p.proposalType == ChamaStructs.ProposalType.CancelPunishment) {
-            _cancelPunishmentInternal(p.target);
-            return true;
-        } else if (p.proposalType == ChamaStructs.ProposalType.AddAdmin) {
-            require(!admins[p.target], "Already admin");
-            admins[p.target] = true;
-            emit AdminAdded(p.target);
-            return true;
-        } else if (p.proposalType == ChamaStructs.ProposalType.RemoveAdmin) {
-            require(p.target != creator, "Cannot remove creator");
-            require(admins[p.target], "Not an admin");
-            admins[p.target] = false;
-            emit AdminRemoved(p.target);
-            return true;
-        } else if (p.proposalType == ChamaStructs.ProposalType.KickMember) {
-            require(members[p.target].exists && members[p.target].isActive, "Invalid member");
-            members[p.target].isActive = false;
-            activeMemberCount--;
-            return true;
-        }
-        return false;
+    function executeProposal(uint256 /* proposalId */) external {
+        _delegate(Module.Governance);
     }
 
     /**
-     * @dev Internal function to cancel punishment
+     * @dev Apply any approved parameter changes whose effective period has started (callable by anyone)
      */
-    function _cancelPunishmentInternal(address user) internal {
-        require(punishments[user].isActive, "No active punishment");
-        
-        if (punishments[user].action == ChamaStructs.PunishmentAction.Ban) {
-            members[user].isActive = true;
-            
-            activeMemberCount++;
-        }
-        
-        punishments[user].isActive = false;
-        members[user].missedContributions = 0;
-        members[user].consecutiveFines = 0;
-        
-        emit PunishmentCancelled(user);
+    function applyParameterChanges() external {
+        _delegate(Module.Governance);
     }
 
     /**
      * @dev Cancel punishment (admin only)
      */
-    function cancelPunishment(address user) external onlyAdmin {
-        _cancelPunishmentInternal(user);
+    function cancelPunishment(address /* user */) external {
+        _delegate(Module.Discipline);
     }
 
     /**
      * @dev Manual punishment (admin only)
      */
     function punishMember(
-        address user,
-        ChamaStructs.PunishmentAction action,
-        string calldata reason
-    ) external onlyAdmin {
-        require(members[user].exists, "User is not a member");
-        require(action != ChamaStructs.PunishmentAction.None, "Invalid punishment action");
-        
-        uint256 fineAmount = 0;
-        if (action == ChamaStructs.PunishmentAction.Fine) {
-            fineAmount = FINE_AMOUNT;
-        }
+        address /* user */,
+        ChamaStructs.PunishmentAction /* action */,
+        string calldata /* reason */
+    ) external {
+        _delegate(Module.Discipline);
+    }
 
-        punishments[user] = ChamaStructs.Punishment({
-            action: action,
-            reason: reason,
-            isActive: true,
-            issuedAt: block.timestamp,
-            fineAmount: fineAmount
-        });
+    /**
+     * @dev Temporarily ban a member for a number of periods, counting the current one (admin only)
+     */
+    function suspendMember(address /* user */, uint256 /* periods */, string calldata /* reason */) external {
+        _delegate(Module.Discipline);
+    }
 
-        if (action == ChamaStructs.PunishmentAction.Ban) {
-            members[user].isActive = false;
-            activeMemberCount--;
-        }
+    /**
+     * @dev Apply an expired suspension or overdue fine for any member (callable by anyone)
+     */
+    function processExpiredPunishment(address /* user */) external {
+        _delegate(Module.Discipline);
+    }
 
-        emit MemberPunished(user, reason, action, fineAmount);
+    /**
+     * @dev Close the group once its end date has passed and split the pot into member claims.
+     * Each remaining member is owed what they contributed minus what they were paid out, less
+     * any loan or guarantor debt. If the pot can't cover that, claims are scaled down pro rata;
+     * anything left over (fines, skipped payouts) is shared equally among compliant members.
+     */
+    function settleGroup() external {
+        _delegate(Module.Settlement);
     }
 
     /**
-     * @dev Emergency withdraw with token support
+     * @dev Withdraw the caller's share of a settled group
      */
-    function triggerEmergencyWithdraw() external onlyAdmin nonReentrant {
-        require(rules.emergencyWithdrawAllowed, "Emergency withdraw not allowed");
-        
-        uint256 amount;
-        if (isTokenBased) {
-            amount = contributionToken.balanceOf(address(this));
-            require(amount > 0, "No tokens to withdraw");
-            contributionToken.safeTransfer(msg.sender, amount);
-        } else {
-            amount = address(this).balance;
-            require(amount > 0, "No funds to withdraw");
-            (bool success, ) = payable(msg.sender).call{value: amount}("");
-            require(success, "Transfer failed");
-        }
-        
-        totalFunds = 0;
-        emit EmergencyWithdrawTriggered(msg.sender, amount);
+    function claimSettlement() external {
+        _delegate(Module.Settlement);
+    }
+
+    /**
+     * @dev Approve emergency mode (admin only); it activates once enough current admins have approved
+     */
+    function approveEmergencyWithdraw() external {
+        _delegate(Module.Settlement);
+    }
+
+    /**
+     * @dev Emergency approvals from admins who still hold the role
+     */
+    function getEmergencyApprovalCount() external view returns (uint256 count) {
+        _delegateView();
     }
 
     /**
      * @dev Add admin (creator only)
      */
-    function addAdmin(address newAdmin) external onlyCreator {
-        require(!admins[newAdmin], "Already an admin");
-        
-        admins[newAdmin] = true;
-        emit AdminAdded(newAdmin);
+    function addAdmin(address /* newAdmin */) external {
+        _delegate(Module.Administration);
     }
 
     /**
      * @dev Remove admin (creator only)
      */
-    function removeAdmin(address admin) external onlyCreator {
-        require(admin != creator, "Cannot remove creator");
-        require(admins[admin], "Not an admin");
-        
-        admins[admin] = false;
-        emit AdminRemoved(admin);
+    function removeAdmin(address /* admin */) external {
+        _delegate(Module.Administration);
+    }
+
+    /**
+     * @dev Confirmations a sensitive call needs, capped at the number of admins so a short-handed group isn't locked out
+     */
+    function getRequiredAdminApprovals() external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Withdraw the caller's confirmation of a pending operation
+     */
+    function revokeAdminConfirmation(bytes32 /* operationId */) external {
+        _delegate(Module.Administration);
+    }
+
+    /**
+     * @dev Appoint an official (creator only); term is in seconds, 0 = until revoked
+     */
+    function grantRole(ChamaStructs.Role /* role */, address /* account */, uint256 /* term */) external {
+        _delegate(Module.Administration);
+    }
+
+    /**
+     * @dev Remove an official (creator only)
+     */
+    function revokeRole(ChamaStructs.Role /* role */, address /* account */) external {
+        _delegate(Module.Administration);
+    }
+
+    /**
+     * @dev Whether an account holds a role whose term hasn't lapsed
+     */
+    function hasRole(ChamaStructs.Role /* role */, address /* account */) external view returns (bool) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Officials currently in a role, with when each term ends
+     */
+    function getRoleHolders(ChamaStructs.Role /* role */) external view returns (
+        address[] memory holders,
+        uint256[] memory expiresAt
+    ) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Roles an account currently holds
+     */
+    function getRolesOf(address /* account */) external view returns (ChamaStructs.Role[] memory roles) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Pending admin operation, keyed by the keccak256 hash of its calldata
+     */
+    function getAdminOperation(bytes32 /* operationId */) external view returns (
+        address proposer,
+        uint256 expiresAt,
+        address[] memory confirmers,
+        uint256 confirmations,
+        uint256 required
+    ) {
+        _delegateView();
     }
 
     // VIEW FUNCTIONS
@@ -794,78 +631,206 @@ function checkAndPunishMissedContributions(address user) internal {
     /**
      * @dev Get current period
      */
-    function getCurrentPeriod() public view returns (uint256) {
-        if (block.timestamp < rules.startDate) {
-            return 0;
-        }
-        return (block.timestamp - rules.startDate) / PERIOD_DURATION;
+    function getCurrentPeriod() external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Get start timestamp of a period
+     */
+    function getPeriodStart(uint256 /* period */) external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Get length of a period in seconds (varies for monthly groups)
+     */
+    function getPeriodDuration(uint256 /* period */) external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Get fine amount in contribution units (fixed or a share of contributionAmount)
+     */
+    function getFineAmount() external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Funds available for treasury spends and loans: the reserve only, so contributions
+     * owed to the current or a prepaid future period's payout can't be spent
+     */
+    function getSpendableFunds() external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Largest loan a member can request
+     */
+    function getMaxLoanAmount(address /* user */) external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Principal plus interest still owed on a disbursed loan
+     */
+    function getLoanBalance(uint256 /* loanId */) external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Cumulative installments due by the end of a period
+     */
+    function getLoanAmountDue(uint256 /* loanId */, uint256 /* period */) external view returns (uint256) {
+        _delegateView();
+    }
+
+    function getLoanDetails(uint256 /* loanId */) external view returns (ChamaStructs.Loan memory) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Nominated and accepted guarantors of a member
+     */
+    function getGuarantors(address /* member */) external view returns (address[] memory) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Members a guarantor has accepted to guarantee
+     */
+    function getGuaranteedMembers(address /* guarantor */) external view returns (address[] memory) {
+        _delegateView();
+    }
+
+    function getActiveGuarantorCount(address /* member */) external view returns (uint256 count) {
+        _delegateView();
+    }
+
+    /**
+     * @dev All treasury spends, oldest first
+     */
+    function getSpendLedger() external view returns (ChamaStructs.SpendRecord[] memory) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Amount still owed for a period, after any installments
+     */
+    function getOutstandingAmount(address /* user */, uint256 /* period */) external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Funds not owed to any period's payout: fines, late fees, loan interest and the like
+     */
+    function getReserve() external view returns (uint256) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Reconcile a period's payout against its contributions
+     * @return ledger Collected, expected, topped-up and paid-out amounts
+     * @return shortfall Amount by which the funded pot falls short of the full pot
+     */
+    function getPeriodReconciliation(uint256 /* period */) external view returns (
+        ChamaStructs.PeriodLedger memory ledger,
+        uint256 shortfall
+    ) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Number of prepaid periods that haven't started yet
+     */
+    function getUnusedPrepaidPeriods(address /* user */) external view returns (uint256 count) {
+        _delegateView();
+    }
+
+    /**
+     * @dev Late fee charged on top of the contribution for an arrears payment
+     */
+    function getLateFee() external view returns (uint256) {
+        _delegateView();
     }
 
     /**
      * @dev Get member contribution timestamp for period
      */
-    function getMemberContributionTimestamp(address user, uint256 period) external view returns (uint256) {
-        return contributionTimestamps[user][period];
+    function getMemberContributionTimestamp(address /* user */, uint256 /* period */) external view returns (
+        uint256
+    ) {
+        _delegateView();
     }
 
     /**
      * @dev Get member payout history
      */
-    function getMemberPayoutHistory(address user) external view returns (uint256[] memory) {
-        return memberPayoutPeriods[user];
+    function getMemberPayoutHistory(address /* user */) external view returns (uint256[] memory) {
+        _delegateView();
     }
 
     /**
      * @dev Get payout info for period
      */
-    function getPayoutInfo(uint256 period) external view returns (
+    function getPayoutInfo(uint256 /* period */) external view returns (
         address recipient,
         uint256 amount,
         uint256 timestamp,
-        bool wasSkipped
+        bool wasSkipped,
+        uint256 grossAmount,
+        uint256 deductions
     ) {
-        PayoutInfo memory info = payoutHistory[period];
-        return (info.recipient, info.amount, info.timestamp, info.wasSkipped);
+        _delegateView();
     }
 
     /**
      * @dev Check if contribution window is open for current period
      */
-   function isContributionWindowOpen() external view returns (bool) {
-    uint256 nowTs = block.timestamp;
-    
-    uint256 elapsed = nowTs - rules.startDate;
-    uint256 period = elapsed / PERIOD_DURATION;
-
-    uint256 periodStart = rules.startDate + (period * PERIOD_DURATION);
-    uint256 windowEnd = periodStart + contributionWindow + gracePeriod;
+    function isContributionWindowOpen() external view returns (bool) {
+        _delegateView();
+    }
 
-    return nowTs >= periodStart && nowTs <= windowEnd;
-}
+    /**
+     * @dev Get the rotation order; members from payoutCursor onwards are still due a payout this round
+     */
+    function getPayoutQueue() external view returns (address[] memory) {
+        _delegateView();
+    }
 
+    /**
+     * @dev Upcoming payouts for the rest of the round, one per period in queue order up to the end date.
+     * Skips for ineligible members and non-Fixed orderings can still change who is actually paid.
+     */
+    function getUpcomingSchedule() external view returns (uint256[] memory periods, address[] memory recipients) {
+        _delegateView();
+    }
 
+    /**
+     * @dev Get everyone who has been admitted to the group, including members who have since left
+     */
+    function getMembers() external view returns (address[] memory) {
+        _delegateView();
+    }
 
     /**
      * @dev Get active member count
      */
-    function getActiveMemberCount() public view returns (uint256) {
-        return activeMemberCount;
+    function getActiveMemberCount() external view returns (uint256) {
+        _delegateView();
     }
 
     /**
      * @dev Get contract balance (native or token)
      */
     function getBalance() external view returns (uint256) {
-        if (isTokenBased) {
-            return contributionToken.balanceOf(address(this));
-        }
-        return address(this).balance;
+        _delegateView();
     }
 
     /**
      * @dev Get member details
      */
-    function getMemberDetails(address user) external view returns (
+    function getMemberDetails(address /* user */) external view returns (
         bool exists,
         bool active,
         uint256 joinedAt,
@@ -873,42 +838,35 @@ function checkAndPunishMissedContributions(address user) internal {
         uint256 missedContributions,
         uint256 consecutiveFines
     ) {
-        ChamaStructs.Member memory member = members[user];
-        return (
-            member.exists,
-            member.isActive,
-            member.joinedAt,
-            member.totalContributed,
-            member.missedContributions,
-            member.consecutiveFines
-        );
+        _delegateView();
     }
 
     /**
      * @dev Get punishment details
      */
-    function getPunishmentDetails(address user) external view returns (
+    function getPunishmentDetails(address /* user */) external view returns (
         ChamaStructs.PunishmentAction action,
         string memory reason,
         bool active,
         uint256 issuedAt,
-        uint256 fineAmount
+        uint256 fineAmount,
+        uint256 expiresAt,
+        uint256 dueDate
     ) {
-        ChamaStructs.Punishment memory punishment = punishments[user];
-        return (
-            punishment.action,
-            punishment.reason,
-            punishment.isActive,
-            punishment.issuedAt,
-            punishment.fineAmount
-        );
+        _delegateView();
+    }
+
+    /**
+     * @dev Get all punishments issued to a member, oldest first
+     */
+    function getPunishmentHistory(address /* user */) external view returns (ChamaStructs.Punishment[] memory) {
+        _delegateView();
     }
-    
 
     /**
      * @dev Get proposal details
      */
-    function getProposalDetails(uint256 proposalId) external view returns (
+    function getProposalDetails(uint256 /* proposalId */) external view returns (
         ChamaStructs.ProposalType proposalType,
         address target,
         uint256 value,
@@ -918,38 +876,77 @@ function checkAndPunishMissedContributions(address user) internal {
         uint256 createdAt,
         bool executed
     ) {
-        Proposal storage p = proposals[proposalId];
-        return (
-            p.proposalType,
-            p.target,
-            p.value,
-            p.description,
-            p.votesFor,
-            p.votesAgainst,
-            p.createdAt,
-            p.executed
-        );
+        _delegateView();
     }
 
     /**
      * @dev Check if address has voted on proposal
      * FIXED: Updated to use external mapping
      */
-    function hasVotedOnProposal(uint256 proposalId, address voter) external view returns (bool) {
-        return proposalVotes[proposalId][voter];
+    function hasVotedOnProposal(uint256 /* proposalId */, address /* voter */) external view returns (bool) {
+        _delegateView();
     }
 
     /**
      * @dev Emergency pause (admin only)
      */
-    function pause() external onlyAdmin {
-        _pause();
+    function pause() external {
+        _delegate(Module.Administration);
     }
 
     /**
      * @dev Unpause (admin only)
      */
-    function unpause() external onlyAdmin {
-        _unpause();
+    function unpause() external {
+        _delegate(Module.Administration);
+    }
+
+    function _delegate(Module module) private {
+        _delegate(module, 0);
+    }
+
+    /**
+     * @dev Run the call data from `offset` on in a module against this group's storage, returning or reverting
+     * with its result
+     */
+    function _delegate(Module module, uint256 offset) private {
+        address target = _moduleAddress(module);
+        assembly {
+            let size := sub(calldatasize(), offset)
+            calldatacopy(0, offset, size)
+            let success := delegatecall(gas(), target, 0, size, 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            if iszero(success) {
+                revert(0, returndatasize())
+            }
+            return(0, returndatasize())
+        }
+    }
+
+    /**
+     * @dev Answer a view call in the views module. A view can't delegatecall, so the group staticcalls itself
+     * with the call behind VIEW_CALL, and the fallback delegates it from there
+     */
+    function _delegateView() private view {
+        (bool success, bytes memory result) = address(this).staticcall(abi.encodePacked(VIEW_CALL, msg.data));
+        assembly {
+            if iszero(success) {
+                revert(add(result, 32), mload(result))
+            }
+            return(add(result, 32), mload(result))
+        }
+    }
+
+    function _moduleAddress(Module module) private view returns (address) {
+        if (module == Module.Membership) return _membershipModule;
+        if (module == Module.Administration) return _administrationModule;
+        if (module == Module.Contributions) return _contributionsModule;
+        if (module == Module.Discipline) return _disciplineModule;
+        if (module == Module.Payouts) return _payoutsModule;
+        if (module == Module.Slots) return _slotsModule;
+        if (module == Module.Lending) return _lendingModule;
+        if (module == Module.Governance) return _governanceModule;
+        if (module == Module.Settlement) return _settlementModule;
+        return _viewsModule;
     }
-}
\ No newline at end of file
+}
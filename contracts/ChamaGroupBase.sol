@@ -0,0 +1,1991 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import "./ChamaStructs.sol";
+import "./ChamaPeriods.sol";
+import "./IChamaFactory.sol";
+
+/**
+ * @title ChamaGroupBase
+ * @dev Storage, events, modifiers and shared internals of a ChamaGroup. The group and its modules all
+ * inherit it, so module code run through delegatecall sees the group's storage layout
+ */
+abstract contract ChamaGroupBase is ReentrancyGuard, Pausable {
+    using ChamaStructs for *;
+    using SafeERC20 for IERC20;
+
+    // State variables
+    ChamaStructs.GroupRules public rules;
+    mapping(address => ChamaStructs.Member) public members;
+    mapping(address => ChamaStructs.Punishment) public punishments;
+    mapping(address => ChamaStructs.Punishment[]) public punishmentHistory;
+    
+    struct Proposal {
+        ChamaStructs.ProposalType proposalType;
+        address target;
+        uint256 value; // For parameter changes
+        string description;
+        uint256 votesFor;
+        uint256 votesAgainst;
+        uint256 createdAt;
+        bool executed;
+        // FIXED: Removed nested mapping from struct
+    }
+
+    struct PayoutInfo {
+        address recipient;
+        uint256 amount; // Net paid for the slot, including a co-owner's split
+        uint256 timestamp;
+        bool wasSkipped;
+        uint256 grossAmount; // Pot released to the slot, after any auction discount
+        uint256 deductions; // Debts kept back in the pool
+    }
+
+    address[] public payoutQueue;
+    uint256 public payoutCursor; // Queue index of the next recipient in the current round
+    uint256 public payoutRound;
+
+    // Payout ordering strategies; the queue order is the fallback when a strategy has no pick
+    ChamaStructs.PayoutOrdering public payoutOrdering;
+    mapping(uint256 => mapping(address => bytes32)) public drawCommitments; // [period][member] = keccak256(secret, member)
+    mapping(uint256 => bytes32) public drawSeeds; // XOR of the secrets revealed for a period
+    mapping(uint256 => uint256) public drawCommits;
+    mapping(uint256 => uint256) public drawReveals;
+    uint256 public constant DRAW_REVEAL_PERIOD = 1 days; // After the contribution window; late secrets are ignored
+    mapping(uint256 => ChamaStructs.PayoutBid) public payoutBids; // Highest discount bid per period
+    mapping(uint256 => mapping(address => uint256)) public recipientVotes; // [period][candidate]
+    mapping(uint256 => mapping(address => bool)) public hasVotedForRecipient; // [period][voter]
+    mapping(uint256 => address) public recipientVoteLeader;
+    mapping(address => address) public payoutSwapOffers; // [offerer] = member they offered to trade places with
+
+    // Shares: a member holds one queue slot per share, or co-owns another member's single slot
+    uint256 public constant MAX_SHARES = 5;
+    uint256 public activeShares; // Shares held by active members; each adds one contribution to the pot
+    mapping(address => uint256) public requestedShares; // Shares asked for in a pending join request
+    mapping(address => ChamaStructs.SlotSplit) public slotSplits; // [primary] = co-owner and their split
+    mapping(address => address) public coOwnedSlotOf; // [co-owner] = primary whose slot they share
+    mapping(address => uint256) public payoutsReceived; // Rotation payouts received, including co-owned shares
+
+    // Per-period collection ledger; payouts are funded from what their period collected
+    ChamaStructs.ShortfallPolicy public shortfallPolicy;
+    mapping(uint256 => ChamaStructs.PeriodLedger) public periodLedger;
+    mapping(address => mapping(uint256 => uint256)) public periodContributions; // [member][period]
+    uint256 public undisbursedContributions; // Collected for periods not yet paid out
+
+    // Unpaid fines and overdue loan repayments are netted from the member's payout instead of skipping them
+    bool public netDebtsFromPayouts;
+    mapping(uint256 => PayoutInfo) public payoutHistory;
+    mapping(address => uint256[]) public memberPayoutPeriods; // Track member payout history
+    
+    mapping(uint256 => Proposal) public proposals;
+    mapping(address => uint256) public lastCheckedPeriod;
+    // FIXED: Moved hasVoted mapping outside of struct
+    mapping(uint256 => mapping(address => bool)) public proposalVotes;
+    mapping(address => mapping(uint256 => uint256)) public contributionTimestamps; // Track when contributions were made
+    mapping(address => mapping(uint256 => uint256)) public periodPaidAmount; // Installments paid towards an unfulfilled period
+    mapping(address => mapping(uint256 => bool)) public prepaidPeriods; // Periods paid ahead via prepayContributions
+    mapping(address => uint256) public prepaidUntil; // Exclusive upper bound of a member's prepaid periods
+    mapping(address => bool) public admins;
+    mapping(address => bool) public joinRequests;
+    
+    uint256 public memberCount;
+    uint256 public activeMemberCount; 
+    uint256 public totalFunds;
+    uint256 public currentPeriod;
+    uint256 public skippedPayouts; // Payouts that went to someone other than the member whose turn it was
+
+    address public creator;
+    bool public isActive;
+
+    // Token support
+    IERC20 public contributionToken; // If address(0), use native currency
+    bool public isTokenBased;
+
+    // Enhanced timing controls
+    uint256 public gracePeriod; // Grace period for contributions
+    uint256 public contributionWindow; // Window within period to contribute
+
+    // Fine configuration
+    ChamaStructs.FineType public fineType;
+    uint256 public fineValue;
+
+    // Surcharge on late (arrears) payments, in basis points of contributionAmount
+    uint256 public lateFeeBps;
+
+    // Missed contribution escalation (all zero = single punishmentMode at MAX_MISSED_CONTRIBUTIONS)
+    ChamaStructs.EscalationPolicy public escalationPolicy;
+
+    // Constants
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_MISSED_CONTRIBUTIONS = 3;
+    uint256 public constant MIN_VOTING_QUORUM = 50; // 50% of active members
+
+    // Proposal settings
+    uint256 public proposalDuration;
+    uint256 public proposalCounter;
+
+    // Approved parameter changes, keyed by their proposal type
+    mapping(ChamaStructs.ProposalType => ChamaStructs.ParameterChange) public parameterChanges;
+    uint256 public pendingParameterChangeCount;
+
+    // Treasury spends approved by members
+    ChamaStructs.SpendRecord[] public spendLedger;
+
+    // Table banking
+    ChamaStructs.LoanPolicy public loanPolicy;
+    mapping(uint256 => ChamaStructs.Loan) public loans;
+    mapping(address => uint256) public activeLoanId; // Requested or unpaid loan (0 = none)
+    uint256 public loanCounter;
+
+    // Guarantors co-sign payouts and loans, and cover a member's defaults
+    uint256 public constant MAX_GUARANTORS = 2;
+    uint256 public requiredGuarantors;
+    mapping(address => address[]) public guarantorsOf; // Nominated and accepted guarantors of a member
+    mapping(address => address[]) public guaranteesGiven; // Members a guarantor has accepted
+    mapping(address => mapping(address => ChamaStructs.GuaranteeStatus)) public guaranteeStatus; // [member][guarantor]
+    mapping(address => uint256) public guarantorDebt; // Charged for defaults, collected from future payouts
+    mapping(address => mapping(uint256 => uint256)) public guarantorChargedFor; // [member][period] missed contribution charged to guarantors
+
+    // Join deposits, escrowed outside totalFunds
+    uint256 public joinDeposit;
+    bool public distributeSlashedDeposits;
+    mapping(address => uint256) public deposits;
+    uint256 public totalDeposits;
+
+    // End-of-cycle settlement
+    address public factory;
+    address[] public memberList; // Everyone who has ever been admitted, in join order
+    bool public settled;
+    mapping(address => uint256) public settlementClaims;
+    uint256 public unclaimedSettlement;
+
+    // Pull payments: transfers that can't be pushed are credited for the recipient to withdraw
+    uint256 public constant PUSH_GAS_LIMIT = 50000;
+    mapping(address => uint256) public pendingWithdrawals;
+    uint256 public totalPendingWithdrawals;
+    mapping(address => bool) public pullPaymentsOnly; // Recipient opted out of the push fast path
+
+    // Emergency mode: approved by M admins or a member vote, then the pool is credited to members pro rata
+    bool public emergencyMode;
+    uint256 public emergencyApprovalThreshold;
+    address[] public emergencyApprovers;
+    mapping(address => bool) public hasApprovedEmergency;
+
+    // Multi-admin approval: sensitive calls run once adminApprovalThreshold admins have made them
+    uint256 public constant ADMIN_OPERATION_EXPIRY = 3 days;
+    uint256 public adminApprovalThreshold;
+    uint256 public adminCount;
+    mapping(bytes32 => ChamaStructs.AdminOperation) internal adminOperations; // [keccak256(calldata)]
+
+    // Timelock: admin and creator actions are scheduled and take effect after timelockDelay
+    uint256 public timelockDelay;
+    mapping(bytes32 => ChamaStructs.ScheduledAction) public scheduledActions; // [keccak256(calldata)]
+    uint256 public constant SCHEDULED_ACTION_WINDOW = 7 days; // After the eta; a staler call is scheduled afresh
+
+    // Officials: roleExpiresAt is 0 when the role isn't held and type(uint256).max for an open-ended term
+    mapping(address => mapping(ChamaStructs.Role => uint256)) public roleExpiresAt;
+    mapping(ChamaStructs.Role => address[]) internal roleHolders;
+
+    // Creator handover: the nominee must accept within CREATOR_TRANSFER_WINDOW
+    uint256 public constant CREATOR_TRANSFER_WINDOW = 7 days;
+    address public pendingCreator;
+    uint256 public pendingCreatorDeadline;
+    bool public revokeOldCreatorAdmin;
+
+    // Dead-man switch: members may replace a creator idle for creatorInactivityPeriods
+    uint256 public creatorInactivityPeriods;
+    uint256 public creatorLastActivePeriod;
+
+    // Enhanced events
+    event MemberJoined(address indexed user, uint256 timestamp);
+    event MemberLeft(address indexed user, uint256 refundAmount, uint256 timestamp);
+    event JoinRequestSubmitted(address indexed user, uint256 timestamp);
+    event JoinRequestApproved(address indexed user, address indexed approver);
+    event ContributionMade(address indexed user, uint256 amount, uint256 period, uint256 timestamp);
+    event MemberPunished(address indexed user, string reason, ChamaStructs.PunishmentAction action, uint256 fineAmount);
+    event PunishmentCancelled(address indexed user);
+    event PayoutProcessed(address indexed recipient, uint256 grossAmount, uint256 deductions, uint256 amount, uint256 period, bool wasSkipped);
+    event EmergencyWithdrawApproved(address indexed admin, uint256 approvals, uint256 required);
+    event EmergencyModeActivated(uint256 pool, uint256 distributed);
+    event AdminOperationProposed(bytes32 indexed operationId, address indexed proposer, bytes data, uint256 expiresAt);
+    event AdminOperationConfirmed(bytes32 indexed operationId, address indexed admin, uint256 confirmations, uint256 required);
+    event AdminOperationRevoked(bytes32 indexed operationId, address indexed admin, uint256 confirmations);
+    event AdminOperationExecuted(bytes32 indexed operationId);
+    event ActionScheduled(bytes32 indexed actionId, address indexed scheduler, bytes data, uint256 eta);
+    event ScheduledActionExecuted(bytes32 indexed actionId);
+    event ScheduledActionCancelled(bytes32 indexed actionId, uint256 indexed proposalId);
+    event ScheduledActionExpired(bytes32 indexed actionId);
+    event RoleGranted(ChamaStructs.Role indexed role, address indexed account, uint256 expiresAt);
+    event RoleRevoked(ChamaStructs.Role indexed role, address indexed account);
+    event AdminAdded(address indexed admin);
+    event AdminRemoved(address indexed admin);
+    event FineCollected(address indexed user, uint256 amount);
+    event ProposalCreated(uint256 indexed proposalId, ChamaStructs.ProposalType proposalType, address indexed creator);
+    event ProposalExecuted(uint256 indexed proposalId, bool success);
+    event CreatorTransferred(address indexed oldCreator, address indexed newCreator);
+    event CreatorTransferProposed(address indexed creator, address indexed pendingCreator, uint256 deadline, bool revokeOldAdmin);
+    event CreatorTransferCancelled(address indexed pendingCreator);
+    event MissedContributionDetected(address indexed user, uint256 period, uint256 timestamp);
+    event MissedContributionForgiven(address indexed user, uint256 remainingMissed);
+    event MemberSuspended(address indexed user, uint256 expiresAt);
+    event MemberReinstated(address indexed user);
+    event InstallmentPaid(address indexed user, uint256 amount, uint256 period, uint256 totalPaid);
+    event ContributionsPrepaid(address indexed user, uint256 periods, uint256 amount, uint256 lastPeriod);
+    event ParameterChangeScheduled(ChamaStructs.ProposalType indexed parameter, uint256 value, uint256 effectivePeriod);
+    event ParameterChanged(ChamaStructs.ProposalType indexed parameter, uint256 value);
+    event TreasurySpent(uint256 indexed proposalId, address indexed recipient, uint256 amount);
+    event LoanRequested(uint256 indexed loanId, address indexed borrower, uint256 amount);
+    event LoanApproved(uint256 indexed loanId, address indexed borrower, uint256 principal, uint256 interest);
+    event LoanRejected(uint256 indexed loanId);
+    event LoanRepayment(uint256 indexed loanId, uint256 amount, uint256 remaining);
+    event LoanDefaulted(uint256 indexed loanId, address indexed borrower);
+    event GuarantorNominated(address indexed member, address indexed guarantor);
+    event GuaranteeAccepted(address indexed member, address indexed guarantor);
+    event GuaranteeRevoked(address indexed member, address indexed guarantor);
+    event GuarantorCharged(address indexed guarantor, address indexed member, uint256 amount);
+    event GuarantorChargeReversed(address indexed guarantor, address indexed member, uint256 amount);
+    event GuarantorDebtCollected(address indexed guarantor, uint256 amount);
+    event DepositPaid(address indexed user, uint256 amount);
+    event DepositReturned(address indexed user, uint256 amount);
+    event DepositSlashed(address indexed user, uint256 amount, uint256 distributed);
+    event GroupSettled(uint256 distributed, uint256 remainder, uint256 timestamp);
+    event SettlementClaimed(address indexed user, uint256 amount);
+    event PaymentCredited(address indexed user, uint256 amount);
+    event Withdrawal(address indexed user, uint256 amount);
+    event PullPaymentsSet(address indexed user, bool enabled);
+    event PayoutQueueJoined(address indexed user, uint256 position);
+    event PayoutQueueLeft(address indexed user);
+    event DrawSeedCommitted(address indexed user, uint256 indexed period);
+    event DrawSeedRevealed(address indexed user, uint256 indexed period);
+    event PayoutBidPlaced(address indexed bidder, uint256 indexed period, uint256 discount);
+    event AuctionDiscountDistributed(uint256 indexed period, uint256 discount, uint256 recipients);
+    event RecipientVoteCast(address indexed voter, address indexed candidate, uint256 indexed period);
+    event PayoutSwapOffered(address indexed offerer, address indexed counterparty);
+    event PayoutSwapCancelled(address indexed offerer);
+    event PayoutSlotSwapped(address indexed offerer, address indexed acceptor, uint256 offererNewPosition, uint256 acceptorNewPosition);
+    event ArrearsPaid(address indexed user, uint256 period, uint256 amount, uint256 lateFee);
+    event SlotSplitOffered(address indexed primary, address indexed coOwner, uint256 coOwnerBps);
+    event SlotSplitAccepted(address indexed primary, address indexed coOwner, uint256 coOwnerBps);
+    event SlotSplitDissolved(address indexed primary, address indexed coOwner);
+    event CoOwnerPaid(address indexed primary, address indexed coOwner, uint256 amount, uint256 period);
+    event PayoutShortfall(uint256 indexed period, uint256 expected, uint256 collected, uint256 toppedUp);
+
+    // FIXED: Added onlyCreator modifier
+    modifier onlyCreator() {
+        require(msg.sender == creator, "Only creator");
+        _recordCreatorActivity();
+        _;
+    }
+
+    modifier onlyAdmin() {
+        require(admins[msg.sender], "Not admin");
+        _recordCreatorActivity();
+        _;
+    }
+
+    /**
+     * @dev Sensitive admin actions: each call with the same arguments confirms a pending operation,
+     * and the body only runs on the confirmation that reaches the approval threshold
+     */
+    modifier onlyApprovedAdmin() {
+        require(admins[msg.sender], "Not admin");
+        _recordCreatorActivity();
+        if (_confirmAdminOperation(keccak256(msg.data))) {
+            _;
+        }
+    }
+
+    modifier onlyAdminOrRole(ChamaStructs.Role role) {
+        require(admins[msg.sender] || _hasRole(role, msg.sender), "Not admin");
+        _recordCreatorActivity();
+        _;
+    }
+
+    /**
+     * @dev Like onlyApprovedAdmin, but the role's officials may also make and confirm the call
+     */
+    modifier onlyApprovedAdminOrRole(ChamaStructs.Role role) {
+        require(admins[msg.sender] || _hasRole(role, msg.sender), "Not admin");
+        _recordCreatorActivity();
+        if (_confirmAdminOperation(keccak256(msg.data))) {
+            _;
+        }
+    }
+
+    /**
+     * @dev Timelocked actions: the first call schedules the action and the same call made
+     * after timelockDelay runs it, unless members have voted to cancel it in between
+     */
+    modifier timelocked() {
+        if (_consumeScheduledAction(keccak256(msg.data))) {
+            _;
+        }
+    }
+
+    modifier onlyActiveMember() {
+        _refreshPunishment(msg.sender);
+        require(members[msg.sender].exists && members[msg.sender].isActive, "Not an active member");
+        _;
+    }
+
+    modifier onlyActiveGroup() {
+        require(isActive, "Group is not active");
+        require(block.timestamp >= rules.startDate, "Group hasn't started");
+        require(block.timestamp <= rules.endDate, "Group has ended");
+        _applyParameterChanges();
+        _;
+    }
+
+    function _proposeCreatorTransfer(address newCreator, bool revokeOldAdmin) internal {
+        require(newCreator != address(0), "Invalid address");
+        require(newCreator != creator, "Already creator");
+        require(members[newCreator].isActive, "New creator must be an active member");
+
+        pendingCreator = newCreator;
+        pendingCreatorDeadline = block.timestamp + CREATOR_TRANSFER_WINDOW;
+        revokeOldCreatorAdmin = revokeOldAdmin;
+        emit CreatorTransferProposed(creator, newCreator, pendingCreatorDeadline, revokeOldAdmin);
+    }
+
+    function _clearCreatorTransfer() internal {
+        pendingCreator = address(0);
+        pendingCreatorDeadline = 0;
+        revokeOldCreatorAdmin = false;
+    }
+
+    function _recordCreatorActivity() internal {
+        if (msg.sender == creator) {
+            creatorLastActivePeriod = _getCurrentPeriod();
+        }
+    }
+
+    /**
+     * @dev Whether the creator has been idle long enough for members to vote in a replacement
+     */
+    function _isCreatorInactive() internal view returns (bool) {
+        return creatorInactivityPeriods > 0 &&
+            _getCurrentPeriod() >= creatorLastActivePeriod + creatorInactivityPeriods;
+    }
+
+    function _join(uint256 shares) internal {
+        require(shares <= MAX_SHARES, "Invalid share count");
+        require(!members[msg.sender].exists, "Already a member");
+        require(memberCount < rules.maxMembers, "Group is full");
+        require(!punishments[msg.sender].isActive, "User has active punishment");
+
+        if (rules.approvalRequired) {
+            require(!joinRequests[msg.sender], "Join request already submitted");
+            joinRequests[msg.sender] = true;
+            requestedShares[msg.sender] = shares;
+            emit JoinRequestSubmitted(msg.sender, block.timestamp);
+        } else {
+            _addMember(msg.sender, shares);
+        }
+
+        if (isTokenBased) {
+            require(msg.value == 0, "Don't send ETH for token deposits");
+            if (joinDeposit > 0) {
+                contributionToken.safeTransferFrom(msg.sender, address(this), joinDeposit);
+            }
+        } else {
+            require(msg.value == joinDeposit, "Incorrect deposit amount");
+        }
+
+        if (joinDeposit > 0) {
+            deposits[msg.sender] = joinDeposit;
+            totalDeposits += joinDeposit;
+            emit DepositPaid(msg.sender, joinDeposit);
+        }
+    }
+
+    /**
+     * @dev Calculate refund amount for leaving member
+     */
+    function _calculateRefund(address user) internal view returns (uint256) {
+        // Prepaid periods that haven't started yet are always returned
+        uint256 unusedCredits = _getUnusedPrepaidPeriods(user) * _contributionDue(user);
+
+        // Check if member has received payout
+        if (memberPayoutPeriods[user].length > 0) {
+            return unusedCredits; // No refund of past contributions if already received payout
+        }
+        
+        // Return their total contributions minus any fines
+        uint256 totalContributed = members[user].totalContributed;
+        uint256 fineDeductions = members[user].missedContributions * _getFineAmount();
+        
+        if (totalContributed > fineDeductions + unusedCredits) {
+            return totalContributed - fineDeductions;
+        }
+        return unusedCredits;
+    }
+
+    /**
+     * @dev Internal function to add member
+     */
+    function _addMember(address user, uint256 shares) internal {
+        members[user] = ChamaStructs.Member({
+            exists: true,
+            isActive: true,
+            joinedAt: block.timestamp,
+            totalContributed: 0,
+            missedContributions: 0,
+            consecutiveFines: 0,
+            cleanStreak: 0,
+            shares: shares
+        });
+        memberCount++;
+        memberList.push(user);
+        lastCheckedPeriod[user] = type(uint256).max;
+
+        _countActive(user);
+        emit MemberJoined(user, block.timestamp);
+
+        // Once the rotation is set, late joiners wait at the back of it, one slot per share
+        if (payoutQueue.length > 0) {
+            for (uint256 i = 0; i < shares; i++) {
+                payoutQueue.push(user);
+                emit PayoutQueueJoined(user, payoutQueue.length - 1);
+            }
+        }
+    }
+
+    /**
+     * @dev Take a departing member out of the group count and the rotation
+     */
+    function _removeMember(address user) internal {
+        _uncountActive(user);
+        members[user].isActive = false;
+        memberCount--;
+        _dissolveSlotSplit(user);
+        _revokeRoles(user);
+
+        // Drop every slot the member holds, keeping the cursor on the same next recipient
+        uint256 length = payoutQueue.length;
+        uint256 cursor = payoutCursor;
+        uint256 kept = 0;
+        for (uint256 i = 0; i < length; i++) {
+            if (payoutQueue[i] == user) {
+                if (i < cursor) payoutCursor--;
+                continue;
+            }
+            payoutQueue[kept++] = payoutQueue[i];
+        }
+        if (kept == length) return;
+
+        while (payoutQueue.length > kept) {
+            payoutQueue.pop();
+        }
+        emit PayoutQueueLeft(user);
+    }
+
+    /**
+     * @dev Count a member and their shares towards the active totals
+     */
+    function _countActive(address user) internal {
+        activeMemberCount++;
+        activeShares += members[user].shares;
+        _adjustExpectedPot(members[user].shares, true);
+    }
+
+    function _uncountActive(address user) internal {
+        activeMemberCount--;
+        activeShares -= members[user].shares;
+        _adjustExpectedPot(members[user].shares, false);
+    }
+
+    /**
+     * @dev Keep the current period's expected pot in step with members joining or leaving the rotation mid-period
+     */
+    function _adjustExpectedPot(uint256 shares, bool added) internal {
+        uint256 period = _getCurrentPeriod();
+        ChamaStructs.PeriodLedger storage ledger = periodLedger[period];
+        if (ledger.expected == 0 || payoutHistory[period].recipient != address(0)) return;
+
+        uint256 amount = rules.contributionAmount * shares;
+        if (added) {
+            ledger.expected += amount;
+        } else {
+            ledger.expected = ledger.expected > amount ? ledger.expected - amount : 0;
+        }
+    }
+
+    /**
+     * @dev Shares held by everyone who hasn't left, i.e. the number of slots in a full rotation
+     */
+    function _totalShares() internal view returns (uint256 total) {
+        for (uint256 i = 0; i < memberList.length; i++) {
+            if (!_hasLeft(memberList[i])) total += members[memberList[i]].shares;
+        }
+    }
+
+    function _validateSlotSplit(address primary, address coOwner) internal view {
+        require(members[primary].isActive && members[primary].shares == 1, "Invalid slot owner");
+        require(
+            members[coOwner].isActive && members[coOwner].shares == 0 && coOwnedSlotOf[coOwner] == address(0),
+            "Invalid co-owner"
+        );
+        // Contributions already made were paid at the unsplit amounts
+        require(
+            members[primary].totalContributed == 0 && members[coOwner].totalContributed == 0,
+            "Contributions already made"
+        );
+    }
+
+    /**
+     * @dev Undo a co-owned slot when either owner leaves the group
+     */
+    function _dissolveSlotSplit(address user) internal {
+        address primary = coOwnedSlotOf[user];
+        if (primary == address(0)) {
+            if (!slotSplits[user].accepted) return;
+            primary = user;
+        }
+
+        address coOwner = slotSplits[primary].coOwner;
+        delete slotSplits[primary];
+        delete coOwnedSlotOf[coOwner];
+        emit SlotSplitDissolved(primary, coOwner);
+    }
+
+    /**
+     * @dev Enhanced missed contribution check with timing validation
+     */
+function checkAndPunishMissedContributions(address user) internal {
+    _refreshPunishment(user);
+    if (!members[user].exists || !members[user].isActive) return;
+
+    uint256 currPeriod = _getCurrentPeriod();
+    uint256 lastChecked = lastCheckedPeriod[user];
+    
+    // Members start at max (never checked); 0 means period 0 was already checked
+    uint256 startPeriod;
+    if (lastChecked == type(uint256).max) {
+        startPeriod = 0;
+    } else {
+        // Normal case - start from next period after last checked
+        startPeriod = lastChecked + 1;
+    }
+
+    for (uint256 period = startPeriod; period < currPeriod; period++) {
+        uint256 periodStart = _getPeriodStart(period);
+        uint256 deadline = periodStart + contributionWindow + gracePeriod;
+
+        // Nothing falls due from a member holding no shares
+        if (block.timestamp > deadline && contributionTimestamps[user][period] == 0 && _contributionDue(user) > 0) {
+            members[user].missedContributions++;
+            members[user].cleanStreak = 0;
+            emit MissedContributionDetected(user, period, block.timestamp);
+
+            // Once paid out, a member's missed contributions fall on their guarantors
+            if (memberPayoutPeriods[user].length > 0 && _getActiveGuarantorCount(user) > 0) {
+                guarantorChargedFor[user][period] = _contributionDue(user);
+                _chargeGuarantors(user, _contributionDue(user));
+            }
+            
+            if (_hasEscalationPolicy()) {
+                if (_escalatePunishment(user)) break;
+            } else if (members[user].missedContributions >= MAX_MISSED_CONTRIBUTIONS) {
+                _applyPunishment(user, "Exceeded maximum missed contributions");
+                break;
+            }
+        } else if (contributionTimestamps[user][period] != 0) {
+            _recordCleanPeriod(user);
+        }
+    }
+    
+    if (currPeriod > 0) {
+        lastCheckedPeriod[user] = currPeriod - 1;
+    }
+}
+
+    /**
+     * @dev Enhanced punishment system
+     */
+    function _applyPunishment(address user, string memory reason) internal {
+        if (rules.punishmentMode == ChamaStructs.PunishmentAction.None) return;
+
+        uint256 fineAmount = 0;
+        ChamaStructs.PunishmentAction action = rules.punishmentMode;
+
+        if (action == ChamaStructs.PunishmentAction.Fine) {
+            fineAmount = _getFineAmount();
+            members[user].consecutiveFines++;
+
+            // Escalate to ban after 3 consecutive fines
+            if (members[user].consecutiveFines >= 3) {
+                action = ChamaStructs.PunishmentAction.Ban;
+                members[user].isActive = false;
+                _uncountActive(user);
+            }
+        } else if (action == ChamaStructs.PunishmentAction.Ban) {
+            members[user].isActive = false;
+            _uncountActive(user);
+            members[user].consecutiveFines = 0; // reset
+        }
+
+        uint256 expiresAt = action == ChamaStructs.PunishmentAction.Ban ? _suspensionExpiry(escalationPolicy.suspensionPeriods) : 0;
+        _issuePunishment(user, action, reason, fineAmount, expiresAt);
+    }
+
+    /**
+     * @dev Walk the group's escalation policy for a member's current missed count
+     * @return banned True if the member was banned
+     */
+    function _escalatePunishment(address user) internal returns (bool banned) {
+        if (rules.punishmentMode == ChamaStructs.PunishmentAction.None) return false;
+
+        ChamaStructs.EscalationPolicy memory policy = escalationPolicy;
+        uint256 missed = members[user].missedContributions;
+
+        if (policy.banThreshold > 0 && missed >= policy.banThreshold) {
+            members[user].isActive = false;
+            _uncountActive(user);
+            members[user].consecutiveFines = 0;
+            _issuePunishment(
+                user,
+                ChamaStructs.PunishmentAction.Ban,
+                "Reached ban threshold",
+                0,
+                _suspensionExpiry(policy.suspensionPeriods)
+            );
+            return true;
+        }
+
+        if (policy.fineThreshold > 0 && missed >= policy.fineThreshold) {
+            uint256 fineAmount = _getFineAmount();
+            members[user].consecutiveFines++;
+
+            // Unpaid fines accumulate rather than being overwritten
+            ChamaStructs.Punishment storage current = punishments[user];
+            if (current.isActive && current.action == ChamaStructs.PunishmentAction.Fine) {
+                fineAmount += current.fineAmount;
+            }
+            _issuePunishment(user, ChamaStructs.PunishmentAction.Fine, "Reached fine threshold", fineAmount, 0);
+            return false;
+        }
+
+        if (policy.warningThreshold > 0 && missed >= policy.warningThreshold && !_hasFineOrBan(user)) {
+            _issuePunishment(user, ChamaStructs.PunishmentAction.Warning, "Reached warning threshold", 0, 0);
+        }
+        return false;
+    }
+
+    /**
+     * @dev Whether a member is serving a fine or ban, which a warning must not displace
+     */
+    function _hasFineOrBan(address user) internal view returns (bool) {
+        return punishments[user].isActive && punishments[user].action != ChamaStructs.PunishmentAction.Warning;
+    }
+
+    /**
+     * @dev Count an on-time period towards forgiving one missed contribution
+     */
+    function _recordCleanPeriod(address user) internal {
+        uint256 decayPeriods = escalationPolicy.decayPeriods;
+        if (decayPeriods == 0 || members[user].missedContributions == 0) return;
+
+        members[user].cleanStreak++;
+        if (members[user].cleanStreak < decayPeriods) return;
+
+        members[user].cleanStreak = 0;
+        members[user].missedContributions--;
+
+        // Warnings lapse with the strike that caused them; fines and bans stay until resolved
+        if (punishments[user].isActive && punishments[user].action == ChamaStructs.PunishmentAction.Warning) {
+            _resolvePunishment(user);
+        }
+
+        emit MissedContributionForgiven(user, members[user].missedContributions);
+    }
+
+    /**
+     * @dev Record a punishment as current and append it to the member's history
+     * @param expiresAt Reinstatement time for bans (0 = until cancelled)
+     */
+    function _issuePunishment(
+        address user,
+        ChamaStructs.PunishmentAction action,
+        string memory reason,
+        uint256 fineAmount,
+        uint256 expiresAt
+    ) internal {
+        // A new punishment supersedes the current one
+        if (punishments[user].isActive) {
+            _resolvePunishment(user);
+        }
+
+        uint256 dueDate = 0;
+        uint256 fineDuePeriods = escalationPolicy.fineDuePeriods;
+        if (action == ChamaStructs.PunishmentAction.Fine && fineDuePeriods > 0) {
+            dueDate = _getPeriodStart(_getCurrentPeriod() + fineDuePeriods);
+        }
+
+        ChamaStructs.Punishment memory punishment = ChamaStructs.Punishment({
+            action: action,
+            reason: reason,
+            isActive: true,
+            issuedAt: block.timestamp,
+            fineAmount: fineAmount,
+            expiresAt: expiresAt,
+            dueDate: dueDate,
+            resolvedAt: 0
+        });
+        punishments[user] = punishment;
+        punishmentHistory[user].push(punishment);
+
+        // A suspended member keeps their deposit for when they are reinstated
+        if (action == ChamaStructs.PunishmentAction.Ban && expiresAt == 0) {
+            _slashDeposit(user);
+        }
+
+        emit MemberPunished(user, reason, action, fineAmount);
+        if (expiresAt > 0) {
+            emit MemberSuspended(user, expiresAt);
+        }
+    }
+
+    /**
+     * @dev Close the current punishment and its history entry
+     */
+    function _resolvePunishment(address user) internal {
+        punishments[user].isActive = false;
+        punishments[user].resolvedAt = block.timestamp;
+
+        ChamaStructs.Punishment[] storage history = punishmentHistory[user];
+        if (history.length > 0) {
+            history[history.length - 1].isActive = false;
+            history[history.length - 1].resolvedAt = block.timestamp;
+        }
+    }
+
+    /**
+     * @dev Apply time-based transitions: end expired suspensions, escalate overdue fines
+     */
+    function _refreshPunishment(address user) internal {
+        ChamaStructs.Punishment storage punishment = punishments[user];
+        if (!punishment.isActive) return;
+
+        if (
+            punishment.action == ChamaStructs.PunishmentAction.Ban &&
+            punishment.expiresAt > 0 &&
+            block.timestamp >= punishment.expiresAt
+        ) {
+            _reinstateMember(user);
+        } else if (
+            punishment.action == ChamaStructs.PunishmentAction.Fine &&
+            punishment.dueDate > 0 &&
+            block.timestamp > punishment.dueDate &&
+            members[user].isActive
+        ) {
+            members[user].isActive = false;
+            _uncountActive(user);
+            members[user].consecutiveFines = 0;
+            _issuePunishment(
+                user,
+                ChamaStructs.PunishmentAction.Ban,
+                "Fine unpaid by deadline",
+                0,
+                _suspensionExpiry(escalationPolicy.suspensionPeriods)
+            );
+        }
+    }
+
+    /**
+     * @dev Restore a suspended member with a clean slate for the periods they sat out
+     */
+    function _reinstateMember(address user) internal {
+        _resolvePunishment(user);
+
+        members[user].isActive = true;
+        members[user].missedContributions = 0;
+        members[user].consecutiveFines = 0;
+        members[user].cleanStreak = 0;
+        _countActive(user);
+
+        uint256 currPeriod = _getCurrentPeriod();
+        lastCheckedPeriod[user] = currPeriod > 0 ? currPeriod - 1 : type(uint256).max;
+
+        emit MemberReinstated(user);
+    }
+
+    /**
+     * @dev Reinstatement time for a suspension of the given length (0 = permanent)
+     */
+    function _suspensionExpiry(uint256 periods) internal view returns (uint256) {
+        if (periods == 0) return 0;
+        return _getPeriodStart(_getCurrentPeriod() + periods);
+    }
+
+    function _hasEscalationPolicy() internal view returns (bool) {
+        return escalationPolicy.warningThreshold > 0 ||
+            escalationPolicy.fineThreshold > 0 ||
+            escalationPolicy.banThreshold > 0;
+    }
+
+    function _validatePayoutSwap(address offerer, address counterparty) internal view {
+        require(members[counterparty].isActive, "Counterparty not an active member");
+        require(
+            !punishments[offerer].isActive && !punishments[counterparty].isActive,
+            "Cannot swap with active punishment"
+        );
+        require(_isAwaitingPayout(offerer) && _isAwaitingPayout(counterparty), "Already paid this round");
+    }
+
+    /**
+     * @dev Pay out the rotation recipient for a period once every active member has contributed
+     */
+    function _processPayout(uint256 period) internal {
+        require(payoutHistory[period].recipient == address(0), "Already processed this period");
+
+        // Verify all active members contributed
+        _verifyAllContributions(period);
+
+        // Everyone ahead of the cursor has been paid this round
+        if (payoutCursor >= payoutQueue.length) {
+            payoutCursor = 0;
+            payoutRound++;
+        }
+
+        (uint256 index, uint256 discount) = _selectRecipient(period);
+        bool wasSkipped = false;
+
+        // Skip if member is banned, has unpaid fine or lacks guarantors
+        if (!_isEligibleRecipient(payoutQueue[index], period)) {
+            wasSkipped = true;
+            skippedPayouts++;
+            discount = 0;
+
+            // Fall back to the next eligible member still waiting this round
+            index = _findNextEligibleRecipient(payoutCursor, period);
+            require(index < payoutQueue.length, "No eligible recipients");
+        }
+
+        // Move the recipient up to the cursor so everyone they jumped keeps their place
+        address recipient = payoutQueue[index];
+        for (uint256 i = index; i > payoutCursor; i--) {
+            payoutQueue[i] = payoutQueue[i - 1];
+        }
+        payoutQueue[payoutCursor] = recipient;
+        payoutCursor++;
+
+        // An auction winner's discount goes to the other members
+        uint256 pot = _fundPayout(period);
+        if (discount > pot) discount = pot;
+        if (discount > 0) {
+            totalFunds -= _distributeDiscount(period, recipient, discount);
+            pot -= discount;
+        }
+
+        // A co-owner's split comes off the gross pot, so each owner's debts only reduce their own part
+        ChamaStructs.SlotSplit storage split = slotSplits[recipient];
+        uint256 coOwnerGross = split.accepted ? (pot * split.coOwnerBps) / BASIS_POINTS : 0;
+
+        // Debts stay in the pool
+        uint256 recipientDeductions = _deductDebts(recipient, pot - coOwnerGross, period);
+        uint256 coOwnerDeductions = coOwnerGross > 0 ? _deductDebts(split.coOwner, coOwnerGross, period) : 0;
+        uint256 deductions = recipientDeductions + coOwnerDeductions;
+        uint256 payoutAmount = pot - deductions;
+        totalFunds -= payoutAmount;
+
+        // Record payout
+        payoutHistory[period] = PayoutInfo({
+            recipient: recipient,
+            amount: payoutAmount,
+            timestamp: block.timestamp,
+            wasSkipped: wasSkipped,
+            grossAmount: pot,
+            deductions: deductions
+        });
+        emit PayoutProcessed(recipient, pot, deductions, payoutAmount, period, wasSkipped);
+
+        if (coOwnerGross > 0) {
+            uint256 coOwnerAmount = coOwnerGross - coOwnerDeductions;
+            memberPayoutPeriods[split.coOwner].push(period);
+            payoutsReceived[split.coOwner] += coOwnerAmount;
+            _payOut(split.coOwner, coOwnerAmount);
+            emit CoOwnerPaid(recipient, split.coOwner, coOwnerAmount, period);
+        }
+
+        // Track member payout history
+        uint256 recipientAmount = pot - coOwnerGross - recipientDeductions;
+        memberPayoutPeriods[recipient].push(period);
+        payoutsReceived[recipient] += recipientAmount;
+
+        _payOut(recipient, recipientAmount);
+    }
+
+    /**
+     * @dev Deduct what a recipient owes from their payout: guarantor debt always,
+     * unpaid fines and overdue loan repayments too when the group nets debts from payouts
+     * @return deductions Amount kept back in the pool
+     */
+    function _deductDebts(address recipient, uint256 gross, uint256 period) internal returns (uint256 deductions) {
+        deductions = gross - _collectGuarantorDebt(recipient, gross);
+        if (!netDebtsFromPayouts) return deductions;
+
+        deductions += _netFine(recipient, gross - deductions);
+        deductions += _netLoanRepayment(recipient, gross - deductions, period);
+    }
+
+    /**
+     * @dev Collect as much of an unpaid fine as the amount covers; the punishment ends once it is paid in full
+     */
+    function _netFine(address user, uint256 available) internal returns (uint256 collected) {
+        ChamaStructs.Punishment storage punishment = punishments[user];
+        if (!punishment.isActive || punishment.action != ChamaStructs.PunishmentAction.Fine || available == 0) {
+            return 0;
+        }
+
+        collected = punishment.fineAmount < available ? punishment.fineAmount : available;
+        punishment.fineAmount -= collected;
+        if (punishment.fineAmount == 0) {
+            _resolvePunishment(user);
+            members[user].consecutiveFines = 0;
+        }
+        emit FineCollected(user, collected);
+    }
+
+    /**
+     * @dev Repay a loan's overdue installments (or a defaulted loan's whole balance) out of the amount
+     */
+    function _netLoanRepayment(address user, uint256 available, uint256 period) internal returns (uint256 repaid) {
+        uint256 loanId = activeLoanId[user];
+        ChamaStructs.Loan storage loan = loans[loanId];
+        uint256 balance = _getLoanBalance(loanId);
+        if (balance == 0 || available == 0) return 0;
+
+        uint256 owed = balance;
+        if (loan.status == ChamaStructs.LoanStatus.Active) {
+            uint256 due = _getLoanAmountDue(loanId, period);
+            owed = due > loan.repaid ? due - loan.repaid : 0;
+            if (owed > balance) owed = balance;
+        }
+
+        repaid = owed < available ? owed : available;
+        if (repaid == 0) return 0;
+
+        loan.repaid += repaid;
+        if (repaid == balance) {
+            loan.status = ChamaStructs.LoanStatus.Repaid;
+            activeLoanId[user] = 0;
+        }
+        emit LoanRepayment(loanId, repaid, balance - repaid);
+    }
+
+    /**
+     * @dev Size a period's pot from what it collected, applying the shortfall policy if that is less than the full pot
+     */
+    function _fundPayout(uint256 period) internal returns (uint256 pot) {
+        ChamaStructs.PeriodLedger storage ledger = periodLedger[period];
+        uint256 expected = _expectedPot(period);
+        pot = ledger.collected;
+
+        if (pot < expected) {
+            require(shortfallPolicy != ChamaStructs.ShortfallPolicy.Wait, "Period underfunded");
+            if (shortfallPolicy == ChamaStructs.ShortfallPolicy.TopUpFromReserve) {
+                uint256 reserve = _getReserve();
+                uint256 shortfall = expected - pot;
+                ledger.toppedUp = shortfall < reserve ? shortfall : reserve;
+                pot += ledger.toppedUp;
+            }
+            emit PayoutShortfall(period, expected, ledger.collected, ledger.toppedUp);
+        }
+
+        undisbursedContributions -= ledger.collected;
+        ledger.expected = expected;
+        ledger.paidOut = pot;
+    }
+
+    /**
+     * @dev Pick the queue index to pay for a period under the group's ordering strategy
+     * @return index Queue index at or after the cursor (the cursor itself when the strategy has no pick)
+     * @return discount Amount the recipient gave up in an auction
+     */
+    function _selectRecipient(uint256 period) internal view returns (uint256 index, uint256 discount) {
+        index = payoutCursor;
+
+        if (payoutOrdering == ChamaStructs.PayoutOrdering.RandomDraw) {
+            // Wait until every committed secret is in or the reveal deadline has passed
+            require(
+                block.timestamp >= _drawRevealDeadline(period) ||
+                    (drawCommits[period] > 0 && drawReveals[period] == drawCommits[period]),
+                "Draw reveal still open"
+            );
+            index = _drawRecipient(period);
+        } else if (payoutOrdering == ChamaStructs.PayoutOrdering.Auction) {
+            ChamaStructs.PayoutBid storage bid = payoutBids[period];
+            if (bid.bidder != address(0) && _isAwaitingPayout(bid.bidder)) {
+                index = _queueIndexOf(bid.bidder);
+                discount = bid.discount;
+            }
+        } else if (payoutOrdering == ChamaStructs.PayoutOrdering.Vote) {
+            address leader = recipientVoteLeader[period];
+            if (leader != address(0) && _isAwaitingPayout(leader)) {
+                index = _queueIndexOf(leader);
+            }
+        }
+    }
+
+    /**
+     * @dev Draw uniformly among the eligible members still waiting this round, using the revealed seed.
+     * Members who committed but never revealed are left out; with no reveals the first candidate in
+     * queue order is paid, and with no candidates the cursor is
+     */
+    function _drawRecipient(uint256 period) internal view returns (uint256) {
+        uint256 candidates = 0;
+        for (uint256 i = payoutCursor; i < payoutQueue.length; i++) {
+            if (_isDrawCandidate(payoutQueue[i], period)) candidates++;
+        }
+        if (candidates == 0) return payoutCursor;
+
+        uint256 pick = drawReveals[period] == 0
+            ? 0
+            : uint256(keccak256(abi.encodePacked(drawSeeds[period], period))) % candidates;
+        for (uint256 i = payoutCursor; i < payoutQueue.length; i++) {
+            if (!_isDrawCandidate(payoutQueue[i], period)) continue;
+            if (pick == 0) return i;
+            pick--;
+        }
+        return payoutCursor; // unreachable
+    }
+
+    /**
+     * @dev Eligible for the period's payout and not withholding a committed secret
+     */
+    function _isDrawCandidate(address member, uint256 period) internal view returns (bool) {
+        return drawCommitments[period][member] == bytes32(0) && _isEligibleRecipient(member, period);
+    }
+
+    /**
+     * @dev End of the reveal phase for a period's draw
+     */
+    function _drawRevealDeadline(uint256 period) internal view returns (uint256) {
+        return _getPeriodStart(period) + contributionWindow + DRAW_REVEAL_PERIOD;
+    }
+
+    /**
+     * @dev Credit an auction discount equally to the compliant members other than the recipient
+     * @return distributed Amount credited (any rounding remainder stays in the pool)
+     */
+    function _distributeDiscount(uint256 period, address recipient, uint256 discount) internal returns (uint256 distributed) {
+        uint256 recipients = 0;
+        for (uint256 i = 0; i < payoutQueue.length; i++) {
+            if (_isCompliantMember(payoutQueue[i], recipient)) recipients++;
+        }
+        if (recipients == 0) return 0;
+
+        uint256 share = discount / recipients;
+        for (uint256 i = 0; i < payoutQueue.length; i++) {
+            if (_isCompliantMember(payoutQueue[i], recipient)) _creditPayment(payoutQueue[i], share);
+        }
+        distributed = share * recipients;
+        emit AuctionDiscountDistributed(period, discount, recipients);
+    }
+
+    /**
+     * @dev Whether a member is in the rotation and hasn't been paid in the current round
+     */
+    function _isAwaitingPayout(address member) internal view returns (bool) {
+        uint256 index = _queueIndexOf(member);
+        if (index == payoutQueue.length) return false;
+        return payoutCursor >= payoutQueue.length || index >= payoutCursor;
+    }
+
+    /**
+     * @dev Queue index of a member's next slot, searching from the cursor while a round is under way
+     */
+    function _queueIndexOf(address member) internal view returns (uint256) {
+        uint256 start = payoutCursor < payoutQueue.length ? payoutCursor : 0;
+        for (uint256 i = start; i < payoutQueue.length; i++) {
+            if (payoutQueue[i] == member) return i;
+        }
+        return payoutQueue.length;
+    }
+
+    /**
+     * @dev Find the queue index of the first eligible member from startIndex on (queue length if none)
+     */
+    function _findNextEligibleRecipient(uint256 startIndex, uint256 period) internal view returns (uint256) {
+        for (uint256 i = startIndex; i < payoutQueue.length; i++) {
+            if (_isEligibleRecipient(payoutQueue[i], period)) {
+                return i;
+            }
+        }
+        return payoutQueue.length;
+    }
+
+    /**
+     * @dev Verify all active members contributed for the period
+     * FIXED: Made more gas efficient by checking active status first
+     */
+    function _verifyAllContributions(uint256 period) internal view {
+        for (uint i = 0; i < payoutQueue.length; i++) {
+            address member = payoutQueue[i];
+            _verifyContribution(member, period);
+
+            // Co-owners pay their split of the slot
+            if (slotSplits[member].accepted) {
+                _verifyContribution(slotSplits[member].coOwner, period);
+            }
+        }
+    }
+
+    function _verifyContribution(address member, uint256 period) internal view {
+        if (members[member].isActive && !punishments[member].isActive) {
+            if (contributionTimestamps[member][period] == 0) {
+                require(periodPaidAmount[member][period] == 0, "Member has only partially contributed");
+                revert("Member has not contributed yet");
+            }
+        }
+    }
+
+    /**
+     * @dev Pay a recipient, pushing the funds when possible and crediting them for withdraw() otherwise,
+     * so a recipient that reverts can't block the rotation
+     */
+    function _payOut(address to, uint256 amount) internal {
+        if (!pullPaymentsOnly[to] && _tryTransferFunds(to, amount)) return;
+        _creditPayment(to, amount);
+    }
+
+    function _creditPayment(address to, uint256 amount) internal {
+        pendingWithdrawals[to] += amount;
+        totalPendingWithdrawals += amount;
+        emit PaymentCredited(to, amount);
+    }
+
+    /**
+     * @dev Push funds without reverting on failure; native transfers get a bounded gas stipend
+     */
+    function _tryTransferFunds(address to, uint256 amount) internal returns (bool success) {
+        if (isTokenBased) {
+            return contributionToken.trySafeTransfer(to, amount);
+        }
+        (success, ) = payable(to).call{value: amount, gas: PUSH_GAS_LIMIT}("");
+    }
+
+    /**
+     * @dev Transfer funds (native or token)
+     */
+    function _transferFunds(address to, uint256 amount) internal {
+        if (isTokenBased) {
+            contributionToken.safeTransfer(to, amount);
+        } else {
+            (bool success, ) = payable(to).call{value: amount}("");
+            require(success, "Transfer failed");
+        }
+    }
+
+    function _disburseLoan(uint256 loanId) internal {
+        ChamaStructs.Loan storage loan = loans[loanId];
+        require(loan.status == ChamaStructs.LoanStatus.Requested, "Loan not pending");
+        require(
+            members[loan.borrower].isActive && !punishments[loan.borrower].isActive,
+            "Borrower not eligible"
+        );
+        require(_hasRequiredGuarantors(loan.borrower), "Guarantors required");
+        require(loan.principal <= _getSpendableFunds(), "Insufficient loanable funds");
+
+        uint256 totalOwed = loan.principal + loan.interest;
+        loan.installmentAmount = (totalOwed + loan.repaymentPeriods - 1) / loan.repaymentPeriods;
+        loan.firstDuePeriod = _getCurrentPeriod() + 1;
+        loan.status = ChamaStructs.LoanStatus.Active;
+        totalFunds -= loan.principal;
+
+        _payOut(loan.borrower, loan.principal);
+        emit LoanApproved(loanId, loan.borrower, loan.principal, loan.interest);
+    }
+
+    /**
+     * @dev Split an amount a member failed to pay across their accepted guarantors
+     */
+    function _chargeGuarantors(address member, uint256 amount) internal {
+        uint256 count = _getActiveGuarantorCount(member);
+        if (count == 0 || amount == 0) return;
+
+        uint256 share = amount / count;
+        uint256 remainder = amount - share * count;
+        address[] storage guarantors = guarantorsOf[member];
+
+        for (uint256 i = 0; i < guarantors.length; i++) {
+            address guarantor = guarantors[i];
+            if (guaranteeStatus[member][guarantor] != ChamaStructs.GuaranteeStatus.Active) continue;
+
+            uint256 charge = share + remainder;
+            remainder = 0;
+            guarantorDebt[guarantor] += charge;
+            emit GuarantorCharged(guarantor, member, charge);
+        }
+    }
+
+    /**
+     * @dev Undo a charge split by _chargeGuarantors: unpaid debt is written off, and whatever was
+     * already collected from a guarantor is credited back to them
+     */
+    function _reverseGuarantorCharge(address member, uint256 amount) internal {
+        uint256 count = _getActiveGuarantorCount(member);
+        if (count == 0) return;
+
+        uint256 share = amount / count;
+        uint256 remainder = amount - share * count;
+        address[] storage guarantors = guarantorsOf[member];
+
+        for (uint256 i = 0; i < guarantors.length; i++) {
+            address guarantor = guarantors[i];
+            if (guaranteeStatus[member][guarantor] != ChamaStructs.GuaranteeStatus.Active) continue;
+
+            uint256 charge = share + remainder;
+            remainder = 0;
+            uint256 debt = guarantorDebt[guarantor];
+            uint256 forgiven = debt < charge ? debt : charge;
+            guarantorDebt[guarantor] = debt - forgiven;
+
+            if (charge > forgiven) {
+                totalFunds -= charge - forgiven;
+                _creditPayment(guarantor, charge - forgiven);
+            }
+            emit GuarantorChargeReversed(guarantor, member, charge);
+        }
+    }
+
+    /**
+     * @dev Deduct a guarantor's debt from an amount about to be paid to them
+     * @return net Amount left to pay out
+     */
+    function _collectGuarantorDebt(address guarantor, uint256 amount) internal returns (uint256 net) {
+        uint256 debt = guarantorDebt[guarantor];
+        if (debt == 0 || amount == 0) return amount;
+
+        uint256 collected = debt < amount ? debt : amount;
+        guarantorDebt[guarantor] = debt - collected;
+        emit GuarantorDebtCollected(guarantor, collected);
+        return amount - collected;
+    }
+
+    /**
+     * @dev Release a member's deposit from escrow, less any guarantor debt (which goes to the pot)
+     * @return net Amount to send back to the member
+     */
+    function _returnDeposit(address user) internal returns (uint256 net) {
+        uint256 amount = deposits[user];
+        if (amount == 0) return 0;
+
+        deposits[user] = 0;
+        totalDeposits -= amount;
+        net = _collectGuarantorDebt(user, amount);
+        totalFunds += amount - net;
+
+        if (net > 0) {
+            emit DepositReturned(user, net);
+        }
+    }
+
+    /**
+     * @dev Forfeit a permanently banned member's deposit to the pot, or share it among compliant members' deposits
+     */
+    function _slashDeposit(address user) internal {
+        uint256 amount = deposits[user];
+        if (amount == 0) return;
+
+        deposits[user] = 0;
+        totalDeposits -= amount;
+
+        uint256 distributed = 0;
+        if (distributeSlashedDeposits) {
+            uint256 recipients = 0;
+            for (uint256 i = 0; i < payoutQueue.length; i++) {
+                if (_isCompliantMember(payoutQueue[i], user)) recipients++;
+            }
+
+            if (recipients > 0) {
+                uint256 share = amount / recipients;
+                for (uint256 i = 0; i < payoutQueue.length; i++) {
+                    if (_isCompliantMember(payoutQueue[i], user)) deposits[payoutQueue[i]] += share;
+                }
+                distributed = share * recipients;
+                totalDeposits += distributed;
+            }
+        }
+
+        totalFunds += amount - distributed;
+        emit DepositSlashed(user, amount, distributed);
+    }
+
+    function _isCompliantMember(address member, address excluded) internal view returns (bool) {
+        return member != excluded && members[member].isActive && !punishments[member].isActive;
+    }
+
+    function _isEligibleRecipient(address member, uint256 period) internal view returns (bool) {
+        return members[member].isActive && (!punishments[member].isActive || _isNettableFine(member, period))
+            && _hasRequiredGuarantors(member);
+    }
+
+    /**
+     * @dev An unpaid fine doesn't cost a member their turn when it can be netted from the payout,
+     * provided they paid their own contribution for the period (fined members aren't held to it otherwise)
+     */
+    function _isNettableFine(address member, uint256 period) internal view returns (bool) {
+        return netDebtsFromPayouts &&
+            punishments[member].action == ChamaStructs.PunishmentAction.Fine &&
+            contributionTimestamps[member][period] != 0;
+    }
+
+    function _hasRequiredGuarantors(address member) internal view returns (bool) {
+        return _getActiveGuarantorCount(member) >= requiredGuarantors;
+    }
+
+    /**
+     * @dev A guarantee is relied on once the member has been paid out or has a loan
+     */
+    function _isGuaranteeInUse(address member) internal view returns (bool) {
+        return memberPayoutPeriods[member].length > 0 || activeLoanId[member] != 0;
+    }
+
+    function _isGuaranteeingInUse(address guarantor) internal view returns (bool) {
+        address[] storage guaranteed = guaranteesGiven[guarantor];
+        for (uint256 i = 0; i < guaranteed.length; i++) {
+            if (members[guaranteed[i]].isActive && _isGuaranteeInUse(guaranteed[i])) return true;
+        }
+        return false;
+    }
+
+    function _removeAddress(address[] storage list, address item) internal {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == item) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                return;
+            }
+        }
+    }
+
+    /**
+     * @dev Votes needed for a proposal to reach quorum
+     * FIXED: Use ceiling division to avoid rounding to zero
+     */
+    function _requiredVotes() internal view returns (uint256) {
+        return (_getActiveMemberCount() * MIN_VOTING_QUORUM + 99) / 100;
+    }
+
+    /**
+     * @dev Whether a proposal reached quorum with a majority in favour
+     */
+    function _isProposalCarried(Proposal storage p) internal view returns (bool) {
+        return p.votesFor + p.votesAgainst >= _requiredVotes() && p.votesFor > p.votesAgainst;
+    }
+
+    /**
+     * @dev Execute specific proposal actions
+     */
+    function _executeProposalAction(uint256 proposalId, Proposal storage p) internal returns (bool) {
+        if (p.proposalType == ChamaStructs.ProposalType.CancelPunishment) {
+            _cancelPunishmentInternal(p.target);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.AddAdmin) {
+            require(!admins[p.target], "Already admin");
+            admins[p.target] = true;
+            adminCount++;
+            emit AdminAdded(p.target);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.RemoveAdmin) {
+            require(p.target != creator, "Cannot remove creator");
+            require(admins[p.target], "Not an admin");
+            admins[p.target] = false;
+            adminCount--;
+            emit AdminRemoved(p.target);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.KickMember) {
+            require(members[p.target].exists && members[p.target].isActive, "Invalid member");
+            _removeMember(p.target);
+            return true;
+        } else if (_isParameterChange(p.proposalType)) {
+            _scheduleParameterChange(p.proposalType, p.value);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.TreasurySpend) {
+            _spendTreasury(proposalId, p);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.ApproveLoan) {
+            _disburseLoan(p.value);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.EmergencyWithdraw) {
+            _activateEmergencyMode();
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.CancelScheduledAction) {
+            require(scheduledActions[bytes32(p.value)].eta != 0, "No scheduled action");
+            delete scheduledActions[bytes32(p.value)];
+            emit ScheduledActionCancelled(bytes32(p.value), proposalId);
+            return true;
+        } else if (_isElection(p.proposalType)) {
+            _grantRole(_electedRole(p.proposalType), p.target, p.value);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.RemoveOfficial) {
+            _revokeRole(ChamaStructs.Role(p.value), p.target);
+            return true;
+        } else if (p.proposalType == ChamaStructs.ProposalType.ReplaceCreator) {
+            require(_isCreatorInactive(), "Creator is active");
+            _proposeCreatorTransfer(p.target, true);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * @dev Pay out an approved treasury spend and record it in the ledger
+     */
+    function _spendTreasury(uint256 proposalId, Proposal storage p) internal {
+        require(p.value <= _getSpendableFunds(), "Exceeds spendable funds");
+
+        totalFunds -= p.value;
+        spendLedger.push(ChamaStructs.SpendRecord({
+            proposalId: proposalId,
+            recipient: p.target,
+            amount: p.value,
+            timestamp: block.timestamp,
+            description: p.description
+        }));
+
+        _payOut(p.target, p.value);
+        emit TreasurySpent(proposalId, p.target, p.value);
+    }
+
+    function _isParameterChange(ChamaStructs.ProposalType proposalType) internal pure returns (bool) {
+        return proposalType >= ChamaStructs.ProposalType.ChangeContributionAmount &&
+            proposalType <= ChamaStructs.ProposalType.ChangeApprovalRequired;
+    }
+
+    /**
+     * @dev Queue a parameter change for the next period so the in-flight period keeps its rules
+     */
+    function _scheduleParameterChange(ChamaStructs.ProposalType parameter, uint256 value) internal {
+        _validateParameterChange(parameter, value);
+
+        ChamaStructs.ParameterChange storage change = parameterChanges[parameter];
+        if (!change.pending) {
+            pendingParameterChangeCount++;
+        }
+        change.value = value;
+        change.effectivePeriod = _getCurrentPeriod() + 1;
+        change.pending = true;
+
+        emit ParameterChangeScheduled(parameter, value, change.effectivePeriod);
+    }
+
+    function _applyParameterChanges() internal {
+        if (pendingParameterChangeCount == 0) return;
+
+        uint256 period = _getCurrentPeriod();
+        uint8 first = uint8(ChamaStructs.ProposalType.ChangeContributionAmount);
+        uint8 last = uint8(ChamaStructs.ProposalType.ChangeApprovalRequired);
+
+        for (uint8 t = first; t <= last; t++) {
+            ChamaStructs.ProposalType parameter = ChamaStructs.ProposalType(t);
+            ChamaStructs.ParameterChange storage change = parameterChanges[parameter];
+            if (!change.pending || period < change.effectivePeriod) continue;
+
+            _setParameter(parameter, change.value);
+            change.pending = false;
+            pendingParameterChangeCount--;
+            emit ParameterChanged(parameter, change.value);
+        }
+    }
+
+    function _setParameter(ChamaStructs.ProposalType parameter, uint256 value) internal {
+        if (parameter == ChamaStructs.ProposalType.ChangeContributionAmount) {
+            rules.contributionAmount = value;
+        } else if (parameter == ChamaStructs.ProposalType.ChangeGracePeriod) {
+            gracePeriod = value;
+        } else if (parameter == ChamaStructs.ProposalType.ChangeContributionWindow) {
+            contributionWindow = value;
+        } else if (parameter == ChamaStructs.ProposalType.ChangeMaxMembers) {
+            rules.maxMembers = value;
+        } else if (parameter == ChamaStructs.ProposalType.ChangeProposalDuration) {
+            proposalDuration = value;
+        } else if (parameter == ChamaStructs.ProposalType.ChangeApprovalRequired) {
+            rules.approvalRequired = value == 1;
+        }
+    }
+
+    /**
+     * @dev Checked when the proposal is created and again when it is executed
+     */
+    function _validateParameterChange(ChamaStructs.ProposalType parameter, uint256 value) internal view {
+        uint256 shortestPeriod = ChamaPeriods.minDuration(rules.contributionFrequency);
+
+        if (parameter == ChamaStructs.ProposalType.ChangeContributionAmount) {
+            require(value > 0, "Invalid contribution amount");
+        } else if (parameter == ChamaStructs.ProposalType.ChangeGracePeriod) {
+            uint256 window = _scheduledValue(ChamaStructs.ProposalType.ChangeContributionWindow, contributionWindow);
+            require(value + window <= shortestPeriod, "Contribution window exceeds period");
+        } else if (parameter == ChamaStructs.ProposalType.ChangeContributionWindow) {
+            uint256 grace = _scheduledValue(ChamaStructs.ProposalType.ChangeGracePeriod, gracePeriod);
+            require(value > 0 && value + grace <= shortestPeriod, "Contribution window exceeds period");
+        } else if (parameter == ChamaStructs.ProposalType.ChangeMaxMembers) {
+            require(value >= memberCount, "Below current member count");
+        } else if (parameter == ChamaStructs.ProposalType.ChangeProposalDuration) {
+            require(value > 0, "Invalid proposal duration");
+        } else if (parameter == ChamaStructs.ProposalType.ChangeApprovalRequired) {
+            require(value <= 1, "Invalid boolean value");
+        }
+    }
+
+    /**
+     * @dev Value a parameter will have once pending changes apply
+     */
+    function _scheduledValue(ChamaStructs.ProposalType parameter, uint256 current) internal view returns (uint256) {
+        ChamaStructs.ParameterChange storage change = parameterChanges[parameter];
+        return change.pending ? change.value : current;
+    }
+
+    /**
+     * @dev Internal function to cancel punishment
+     */
+    function _cancelPunishmentInternal(address user) internal {
+        require(punishments[user].isActive, "No active punishment");
+        
+        if (punishments[user].action == ChamaStructs.PunishmentAction.Ban) {
+            members[user].isActive = true;
+            
+            _countActive(user);
+        }
+        
+        _resolvePunishment(user);
+        members[user].missedContributions = 0;
+        members[user].consecutiveFines = 0;
+        
+        emit PunishmentCancelled(user);
+    }
+
+    /**
+     * @dev Contributions a member has put in beyond the payouts they received
+     */
+    function _netContribution(address member) internal view returns (uint256) {
+        uint256 received = payoutsReceived[member];
+        uint256 contributed = members[member].totalContributed;
+        return contributed > received ? contributed - received : 0;
+    }
+
+    /**
+     * @dev Net a member's guarantor debt and loan balance out of their settlement; loans are closed either way
+     * @return net What remains owed to the member
+     */
+    function _settleDebts(address member, uint256 amount) internal returns (uint256 net) {
+        net = _collectGuarantorDebt(member, amount);
+
+        uint256 loanId = activeLoanId[member];
+        if (loanId == 0) return net;
+
+        ChamaStructs.Loan storage loan = loans[loanId];
+        activeLoanId[member] = 0;
+        if (loan.status == ChamaStructs.LoanStatus.Requested) {
+            loan.status = ChamaStructs.LoanStatus.Rejected;
+            emit LoanRejected(loanId);
+            return net;
+        }
+
+        uint256 balance = _getLoanBalance(loanId);
+        uint256 collected = balance < net ? balance : net;
+        loan.repaid += collected;
+        net -= collected;
+
+        if (collected > 0) {
+            emit LoanRepayment(loanId, collected, balance - collected);
+        }
+        if (collected == balance) {
+            loan.status = ChamaStructs.LoanStatus.Repaid;
+        } else if (loan.status != ChamaStructs.LoanStatus.Defaulted) {
+            loan.status = ChamaStructs.LoanStatus.Defaulted;
+            emit LoanDefaulted(loanId, member);
+        }
+    }
+
+    /**
+     * @dev Members who left (or were kicked) already had their refund and take no part in settlement
+     */
+    function _hasLeft(address member) internal view returns (bool) {
+        return !members[member].isActive && !punishments[member].isActive;
+    }
+
+    /**
+     * @dev Emergency approvals from admins who still hold the role
+     */
+    function _getEmergencyApprovalCount() internal view returns (uint256 count) {
+        for (uint256 i = 0; i < emergencyApprovers.length; i++) {
+            if (admins[emergencyApprovers[i]]) count++;
+        }
+    }
+
+    /**
+     * @dev Close the group and credit the pool to members pro rata by net position
+     * (contributions less payouts received and debts), or equally if nobody has a positive position.
+     * Join deposits, settlement claims and credited payments stay in escrow for their owners
+     */
+    function _activateEmergencyMode() internal {
+        require(!emergencyMode, "Emergency mode active");
+        emergencyMode = true;
+        isActive = false;
+
+        uint256 escrowed = totalDeposits + unclaimedSettlement + totalPendingWithdrawals;
+        uint256 balance = isTokenBased ? contributionToken.balanceOf(address(this)) : address(this).balance;
+        uint256 pool = balance > escrowed ? balance - escrowed : 0;
+
+        uint256[] memory positions = new uint256[](memberList.length);
+        uint256 totalPosition = 0;
+        uint256 recipients = 0;
+        for (uint256 i = 0; i < memberList.length; i++) {
+            address member = memberList[i];
+            if (_hasLeft(member)) continue;
+
+            positions[i] = _settleDebts(member, _netContribution(member));
+            totalPosition += positions[i];
+            recipients++;
+        }
+
+        uint256 distributed = 0;
+        if (pool > 0 && recipients > 0) {
+            for (uint256 i = 0; i < memberList.length; i++) {
+                address member = memberList[i];
+                if (_hasLeft(member)) continue;
+
+                uint256 share = totalPosition > 0 ? (pool * positions[i]) / totalPosition : pool / recipients;
+                if (share == 0) continue;
+                _creditPayment(member, share);
+                distributed += share;
+            }
+        }
+
+        totalFunds = pool - distributed;
+        undisbursedContributions = 0;
+        emit EmergencyModeActivated(pool, distributed);
+    }
+
+    /**
+     * @dev Confirmations a sensitive call needs, capped at the number of admins so a short-handed group isn't locked out
+     */
+    function _getRequiredAdminApprovals() internal view returns (uint256) {
+        uint256 required = adminApprovalThreshold < adminCount ? adminApprovalThreshold : adminCount;
+        return required > 0 ? required : 1;
+    }
+
+    /**
+     * @dev Record the caller's confirmation of a sensitive call, opening a new operation if none is pending
+     * @return ready True once enough admins have confirmed; the operation is cleared for its next use
+     */
+    function _confirmAdminOperation(bytes32 operationId) internal returns (bool ready) {
+        uint256 required = _getRequiredAdminApprovals();
+        if (required == 1) return true;
+        // Approvals were gathered when the timelocked call was scheduled
+        if (_isScheduledActionDue(operationId)) return true;
+
+        ChamaStructs.AdminOperation storage op = adminOperations[operationId];
+        if (op.expiresAt < block.timestamp) {
+            delete adminOperations[operationId];
+            op.proposer = msg.sender;
+            op.expiresAt = block.timestamp + ADMIN_OPERATION_EXPIRY;
+            emit AdminOperationProposed(operationId, msg.sender, msg.data, op.expiresAt);
+        }
+
+        for (uint256 i = 0; i < op.confirmers.length; i++) {
+            require(op.confirmers[i] != msg.sender, "Already confirmed");
+        }
+        op.confirmers.push(msg.sender);
+
+        uint256 confirmations = _countAdminConfirmations(op);
+        emit AdminOperationConfirmed(operationId, msg.sender, confirmations, required);
+        if (confirmations < required) return false;
+
+        delete adminOperations[operationId];
+        emit AdminOperationExecuted(operationId);
+        return true;
+    }
+
+    /**
+     * @dev Confirmations from admins and officials still in office
+     */
+    function _countAdminConfirmations(ChamaStructs.AdminOperation storage op) internal view returns (uint256 count) {
+        for (uint256 i = 0; i < op.confirmers.length; i++) {
+            if (_isOfficial(op.confirmers[i])) count++;
+        }
+    }
+
+    function _grantRole(ChamaStructs.Role role, address account, uint256 term) internal {
+        require(role != ChamaStructs.Role.None, "Invalid role");
+        require(members[account].isActive, "Invalid member");
+
+        // A re-appointment, including one after the term lapsed, just sets the new term
+        if (roleExpiresAt[account][role] == 0) roleHolders[role].push(account);
+        uint256 expiresAt = term == 0 ? type(uint256).max : block.timestamp + term;
+        roleExpiresAt[account][role] = expiresAt;
+        emit RoleGranted(role, account, expiresAt);
+    }
+
+    function _revokeRole(ChamaStructs.Role role, address account) internal {
+        require(roleExpiresAt[account][role] != 0, "Role not held");
+
+        delete roleExpiresAt[account][role];
+        _removeAddress(roleHolders[role], account);
+        emit RoleRevoked(role, account);
+    }
+
+    /**
+     * @dev Drop every role a departing member holds
+     */
+    function _revokeRoles(address account) internal {
+        for (uint256 r = uint256(ChamaStructs.Role.Chair); r <= uint256(ChamaStructs.Role.Secretary); r++) {
+            if (roleExpiresAt[account][ChamaStructs.Role(r)] != 0) {
+                _revokeRole(ChamaStructs.Role(r), account);
+            }
+        }
+    }
+
+    function _isElection(ChamaStructs.ProposalType proposalType) internal pure returns (bool) {
+        return proposalType >= ChamaStructs.ProposalType.ElectChair &&
+            proposalType <= ChamaStructs.ProposalType.ElectSecretary;
+    }
+
+    function _electedRole(ChamaStructs.ProposalType proposalType) internal pure returns (ChamaStructs.Role) {
+        if (proposalType == ChamaStructs.ProposalType.ElectChair) return ChamaStructs.Role.Chair;
+        if (proposalType == ChamaStructs.ProposalType.ElectTreasurer) return ChamaStructs.Role.Treasurer;
+        return ChamaStructs.Role.Secretary;
+    }
+
+    /**
+     * @dev Whether an account holds a role whose term hasn't lapsed
+     */
+    function _hasRole(ChamaStructs.Role role, address account) internal view returns (bool) {
+        return role != ChamaStructs.Role.None && roleExpiresAt[account][role] > block.timestamp;
+    }
+
+    function _isOfficial(address account) internal view returns (bool) {
+        return admins[account] ||
+            _hasRole(ChamaStructs.Role.Chair, account) ||
+            _hasRole(ChamaStructs.Role.Treasurer, account) ||
+            _hasRole(ChamaStructs.Role.Secretary, account);
+    }
+
+    /**
+     * @dev Schedule a timelocked call on first use, or clear it for execution once its delay has passed.
+     * A call not run within SCHEDULED_ACTION_WINDOW of its eta is scheduled again; a passed cancellation
+     * vote blocks it for good
+     * @return ready True when the call should run now
+     */
+    function _consumeScheduledAction(bytes32 actionId) internal returns (bool ready) {
+        if (timelockDelay == 0) return true;
+
+        ChamaStructs.ScheduledAction storage action = scheduledActions[actionId];
+        if (action.cancelProposalId != 0) {
+            Proposal storage p = proposals[action.cancelProposalId];
+            require(block.timestamp > p.createdAt + proposalDuration, "Cancellation vote active");
+            require(!_isProposalCarried(p), "Cancellation vote passed");
+        }
+
+        if (action.eta != 0 && block.timestamp > action.eta + SCHEDULED_ACTION_WINDOW) {
+            emit ScheduledActionExpired(actionId);
+            action.eta = 0;
+            action.cancelProposalId = 0;
+        }
+
+        if (action.eta == 0) {
+            action.scheduler = msg.sender;
+            action.eta = block.timestamp + timelockDelay;
+            emit ActionScheduled(actionId, msg.sender, msg.data, action.eta);
+            return false;
+        }
+
+        require(block.timestamp >= action.eta, "Timelock not expired");
+
+        delete scheduledActions[actionId];
+        emit ScheduledActionExecuted(actionId);
+        return true;
+    }
+
+    function _isScheduledActionDue(bytes32 actionId) internal view returns (bool) {
+        uint256 eta = scheduledActions[actionId].eta;
+        return eta != 0 && eta <= block.timestamp && block.timestamp <= eta + SCHEDULED_ACTION_WINDOW;
+    }
+
+    // VIEW FUNCTIONS
+
+    /**
+     * @dev Get current period
+     */
+    function _getCurrentPeriod() internal view returns (uint256) {
+        return ChamaPeriods.periodAt(rules.contributionFrequency, rules.startDate, block.timestamp);
+    }
+
+    /**
+     * @dev Get start timestamp of a period
+     */
+    function _getPeriodStart(uint256 period) internal view returns (uint256) {
+        return ChamaPeriods.periodStart(rules.contributionFrequency, rules.startDate, period);
+    }
+
+    /**
+     * @dev Get fine amount in contribution units (fixed or a share of contributionAmount)
+     */
+    function _getFineAmount() internal view returns (uint256) {
+        if (fineType == ChamaStructs.FineType.Percentage) {
+            return (rules.contributionAmount * fineValue) / BASIS_POINTS;
+        }
+        return fineValue;
+    }
+
+    /**
+     * @dev Funds available for treasury spends and loans: the reserve only, so contributions
+     * owed to the current or a prepaid future period's payout can't be spent
+     */
+    function _getSpendableFunds() internal view returns (uint256) {
+        return _getReserve();
+    }
+
+    /**
+     * @dev Largest loan a member can request
+     */
+    function _getMaxLoanAmount(address user) internal view returns (uint256) {
+        return (members[user].totalContributed * loanPolicy.maxLoanBps) / BASIS_POINTS;
+    }
+
+    /**
+     * @dev Principal plus interest still owed on a disbursed loan
+     */
+    function _getLoanBalance(uint256 loanId) internal view returns (uint256) {
+        ChamaStructs.Loan storage loan = loans[loanId];
+        if (loan.status != ChamaStructs.LoanStatus.Active && loan.status != ChamaStructs.LoanStatus.Defaulted) {
+            return 0;
+        }
+        return loan.principal + loan.interest - loan.repaid;
+    }
+
+    /**
+     * @dev Cumulative installments due by the end of a period
+     */
+    function _getLoanAmountDue(uint256 loanId, uint256 period) internal view returns (uint256) {
+        ChamaStructs.Loan storage loan = loans[loanId];
+        if (loan.installmentAmount == 0 || period < loan.firstDuePeriod) {
+            return 0;
+        }
+
+        uint256 installments = period - loan.firstDuePeriod + 1;
+        if (installments > loan.repaymentPeriods) {
+            installments = loan.repaymentPeriods;
+        }
+
+        uint256 due = installments * loan.installmentAmount;
+        uint256 totalOwed = loan.principal + loan.interest;
+        return due > totalOwed ? totalOwed : due;
+    }
+
+    function _getActiveGuarantorCount(address member) internal view returns (uint256 count) {
+        address[] storage guarantors = guarantorsOf[member];
+        for (uint256 i = 0; i < guarantors.length; i++) {
+            if (guaranteeStatus[member][guarantors[i]] == ChamaStructs.GuaranteeStatus.Active) count++;
+        }
+    }
+
+    /**
+     * @dev Amount still owed for a period, after any installments
+     */
+    function _getOutstandingAmount(address user, uint256 period) internal view returns (uint256) {
+        if (contributionTimestamps[user][period] != 0) {
+            return 0;
+        }
+        return _contributionDue(user) - periodPaidAmount[user][period];
+    }
+
+    /**
+     * @dev A member's contribution per period: one per share, adjusted for a co-owned slot
+     */
+    function _contributionDue(address user) internal view returns (uint256 due) {
+        due = rules.contributionAmount * members[user].shares;
+
+        ChamaStructs.SlotSplit storage split = slotSplits[user];
+        if (split.accepted) {
+            due -= (rules.contributionAmount * split.coOwnerBps) / BASIS_POINTS;
+        }
+
+        address primary = coOwnedSlotOf[user];
+        if (primary != address(0)) {
+            due += (rules.contributionAmount * slotSplits[primary].coOwnerBps) / BASIS_POINTS;
+        }
+    }
+
+    /**
+     * @dev Record a contribution against its period; arrears for a period already paid out go to the reserve
+     */
+    function _recordContribution(address user, uint256 period, uint256 amount) internal {
+        ChamaStructs.PeriodLedger storage ledger = periodLedger[period];
+        // The period's first contribution once it is under way fixes its full pot at the period's own terms
+        if (ledger.expected == 0 && period <= _getCurrentPeriod()) {
+            ledger.expected = rules.contributionAmount * activeShares;
+        }
+
+        periodContributions[user][period] += amount;
+        ledger.collected += amount;
+        if (payoutHistory[period].recipient == address(0)) {
+            undisbursedContributions += amount;
+        }
+    }
+
+    /**
+     * @dev Take a departing member's refunded contributions back out of the periods not yet paid out
+     * @param prepaidOnly Only unused prepaid periods are refunded to members who have been paid
+     */
+    function _releaseContributions(address user, bool prepaidOnly) internal {
+        uint256 current = _getCurrentPeriod();
+        uint256 end = prepaidUntil[user] > current + 1 ? prepaidUntil[user] : current + 1;
+
+        for (uint256 period = prepaidOnly ? current + 1 : 0; period < end; period++) {
+            uint256 amount = periodContributions[user][period];
+            if (amount == 0 || payoutHistory[period].recipient != address(0)) continue;
+
+            periodContributions[user][period] = 0;
+            periodLedger[period].collected -= amount;
+            undisbursedContributions -= amount;
+        }
+    }
+
+    /**
+     * @dev Funds not owed to any period's payout: fines, late fees, loan interest and the like
+     */
+    function _getReserve() internal view returns (uint256) {
+        return totalFunds > undisbursedContributions ? totalFunds - undisbursedContributions : 0;
+    }
+
+    /**
+     * @dev Full pot a period's payout is measured against: fixed when its contributions came in,
+     * or at the current amount and share count for a period nobody has paid into yet
+     */
+    function _expectedPot(uint256 period) internal view returns (uint256) {
+        uint256 expected = periodLedger[period].expected;
+        return expected > 0 ? expected : rules.contributionAmount * activeShares;
+    }
+
+    /**
+     * @dev Number of prepaid periods that haven't started yet
+     */
+    function _getUnusedPrepaidPeriods(address user) internal view returns (uint256 count) {
+        uint256 until = prepaidUntil[user];
+        for (uint256 period = _getCurrentPeriod() + 1; period < until; period++) {
+            if (prepaidPeriods[user][period]) count++;
+        }
+    }
+
+    /**
+     * @dev Late fee charged on top of the contribution for an arrears payment
+     */
+    function _getLateFee() internal view returns (uint256) {
+        return (rules.contributionAmount * lateFeeBps) / BASIS_POINTS;
+    }
+
+    /**
+     * @dev Get active member count
+     */
+    function _getActiveMemberCount() internal view returns (uint256) {
+        return activeMemberCount;
+    }
+}
@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./ChamaStructs.sol";
+
+/**
+ * @title ChamaPeriods
+ * @dev Period schedule math for each contribution frequency, including calendar months
+ */
+library ChamaPeriods {
+    uint256 internal constant SECONDS_PER_DAY = 1 days;
+
+    /**
+     * @dev Fixed length of a period in seconds (0 for calendar-based frequencies)
+     */
+    function fixedDuration(ChamaStructs.ContributionFrequency frequency) internal pure returns (uint256) {
+        if (frequency == ChamaStructs.ContributionFrequency.Daily) return 1 days;
+        if (frequency == ChamaStructs.ContributionFrequency.Weekly) return 7 days;
+        if (frequency == ChamaStructs.ContributionFrequency.Biweekly) return 14 days;
+        return 0;
+    }
+
+    /**
+     * @dev Shortest possible period for a frequency, used to validate contribution windows
+     */
+    function minDuration(ChamaStructs.ContributionFrequency frequency) internal pure returns (uint256) {
+        if (frequency == ChamaStructs.ContributionFrequency.Monthly) return 28 days;
+        return fixedDuration(frequency);
+    }
+
+    /**
+     * @dev Start timestamp of a given period
+     */
+    function periodStart(
+        ChamaStructs.ContributionFrequency frequency,
+        uint256 startDate,
+        uint256 period
+    ) internal pure returns (uint256) {
+        if (frequency == ChamaStructs.ContributionFrequency.Monthly) {
+            return addMonths(startDate, period);
+        }
+        return startDate + (period * fixedDuration(frequency));
+    }
+
+    /**
+     * @dev Period containing the given timestamp (0 before the start date)
+     */
+    function periodAt(
+        ChamaStructs.ContributionFrequency frequency,
+        uint256 startDate,
+        uint256 timestamp
+    ) internal pure returns (uint256) {
+        if (timestamp < startDate) {
+            return 0;
+        }
+        if (frequency != ChamaStructs.ContributionFrequency.Monthly) {
+            return (timestamp - startDate) / fixedDuration(frequency);
+        }
+
+        (uint256 startYear, uint256 startMonth, ) = _daysToDate(startDate / SECONDS_PER_DAY);
+        (uint256 year, uint256 month, ) = _daysToDate(timestamp / SECONDS_PER_DAY);
+        uint256 months = (year * 12 + month) - (startYear * 12 + startMonth);
+
+        // Month boundaries fall on the start day-of-month, so the last month may not be complete yet
+        if (months > 0 && addMonths(startDate, months) > timestamp) {
+            months--;
+        }
+        return months;
+    }
+
+    /**
+     * @dev Add calendar months to a timestamp, clamping the day to the target month's length
+     */
+    function addMonths(uint256 timestamp, uint256 months) internal pure returns (uint256) {
+        (uint256 year, uint256 month, uint256 day) = _daysToDate(timestamp / SECONDS_PER_DAY);
+        uint256 totalMonths = year * 12 + (month - 1) + months;
+        year = totalMonths / 12;
+        month = (totalMonths % 12) + 1;
+
+        uint256 daysInMonth = _daysInMonth(year, month);
+        if (day > daysInMonth) {
+            day = daysInMonth;
+        }
+        return _daysFromDate(year, month, day) * SECONDS_PER_DAY + (timestamp % SECONDS_PER_DAY);
+    }
+
+    /**
+     * @dev Days since 1970-01-01 for a civil date (proleptic Gregorian calendar)
+     */
+    function _daysFromDate(uint256 year, uint256 month, uint256 day) private pure returns (uint256) {
+        if (month <= 2) {
+            year -= 1;
+        }
+        uint256 era = year / 400;
+        uint256 yearOfEra = year - era * 400;
+        uint256 dayOfYear = (153 * (month > 2 ? month - 3 : month + 9) + 2) / 5 + day - 1;
+        uint256 dayOfEra = yearOfEra * 365 + yearOfEra / 4 - yearOfEra / 100 + dayOfYear;
+        return era * 146097 + dayOfEra - 719468;
+    }
+
+    /**
+     * @dev Civil date for a number of days since 1970-01-01
+     */
+    function _daysToDate(uint256 daysSinceEpoch) private pure returns (uint256 year, uint256 month, uint256 day) {
+        uint256 z = daysSinceEpoch + 719468;
+        uint256 era = z / 146097;
+        uint256 dayOfEra = z - era * 146097;
+        uint256 yearOfEra = (dayOfEra - dayOfEra / 1460 + dayOfEra / 36524 - dayOfEra / 146096) / 365;
+        uint256 dayOfYear = dayOfEra - (365 * yearOfEra + yearOfEra / 4 - yearOfEra / 100);
+        uint256 mp = (5 * dayOfYear + 2) / 153;
+
+        day = dayOfYear - (153 * mp + 2) / 5 + 1;
+        month = mp < 10 ? mp + 3 : mp - 9;
+        year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0);
+    }
+
+    function _daysInMonth(uint256 year, uint256 month) private pure returns (uint256) {
+        if (month == 2) {
+            bool isLeap = (year % 4 == 0 && year % 100 != 0) || year % 400 == 0;
+            return isLeap ? 29 : 28;
+        }
+        if (month == 4 || month == 6 || month == 9 || month == 11) {
+            return 30;
+        }
+        return 31;
+    }
+}
@@ -8,6 +8,14 @@ pragma solidity ^0.8.19;
 library ChamaStructs {
     // Enums
     enum PunishmentAction { None, Warning, Fine, Ban }
+    enum ContributionFrequency { None, Daily, Weekly, Biweekly, Monthly }
+    enum FineType { Fixed, Percentage }
+    enum LoanStatus { None, Requested, Active, Repaid, Defaulted, Rejected, Covered } // Covered: balance charged to guarantors
+    enum GuaranteeStatus { None, Pending, Active }
+    // How processRotationPayout picks the next recipient among members not yet paid this round
+    enum PayoutOrdering { Fixed, RandomDraw, Auction, Vote }
+    // What processRotationPayout does when a period collected less than the full pot
+    enum ShortfallPolicy { PayPartial, Wait, TopUpFromReserve }
 
     // Structs
     struct Member {
@@ -17,6 +25,8 @@ library ChamaStructs {
         uint256 totalContributed;
         uint256 missedContributions;
         uint256 consecutiveFines;
+        uint256 cleanStreak; // Consecutive on-time periods since the last miss
+        uint256 shares; // Slots held in the rotation; each share contributes and is paid one hand
     }
 
     struct Punishment {
@@ -25,12 +35,44 @@ library ChamaStructs {
         bool isActive;
         uint256 issuedAt;
         uint256 fineAmount;
+        uint256 expiresAt; // Bans: automatic reinstatement time (0 = until cancelled)
+        uint256 dueDate; // Fines: escalates to a suspension if unpaid by then (0 = no deadline)
+        uint256 resolvedAt; // When the punishment was paid, cancelled, lapsed or superseded
+    }
+
+    // Missed-contribution counts at which each punishment kicks in (0 skips that step)
+    struct EscalationPolicy {
+        uint256 warningThreshold;
+        uint256 fineThreshold;
+        uint256 banThreshold;
+        uint256 decayPeriods; // Clean periods after which one missed contribution is forgiven (0 = never)
+        uint256 suspensionPeriods; // Length of automatic bans, counting the period issued in (0 = permanent)
+        uint256 fineDuePeriods; // Periods allowed to pay a fine before it escalates (0 = no deadline)
+    }
+
+    // Table-banking limits (maxLoanBps of 0 disables loans)
+    struct LoanPolicy {
+        uint256 maxLoanBps; // Largest loan as basis points of the borrower's totalContributed
+        uint256 interestBps; // Flat interest on the principal
+        uint256 repaymentPeriods; // Equal installments, the first due in the period after disbursement
+    }
+
+    struct Loan {
+        address borrower;
+        uint256 principal;
+        uint256 interest;
+        uint256 repaid;
+        uint256 installmentAmount;
+        uint256 firstDuePeriod;
+        uint256 repaymentPeriods;
+        uint256 requestedAt;
+        LoanStatus status;
     }
 
     struct GroupRules {
         string name;
         uint256 contributionAmount;
-        string contributionFrequency;
+        ContributionFrequency contributionFrequency;
         uint256 maxMembers;
         uint256 startDate;
         uint256 endDate;
@@ -45,7 +87,7 @@ library ChamaStructs {
         uint256 maxMembers;
         uint256 startDate;
         uint256 endDate;
-        string contributionFrequency;
+        ContributionFrequency contributionFrequency;
         PunishmentAction punishmentMode;
         bool approvalRequired;
         bool emergencyWithdrawAllowed;
@@ -53,6 +95,21 @@ library ChamaStructs {
         address contributionToken; 
         uint256 gracePeriod;
         uint256 contributionWindow;
+        FineType fineType;
+        uint256 fineValue; // Token units for Fixed, basis points of contributionAmount for Percentage
+        EscalationPolicy escalation;
+        uint256 lateFeeBps; // Surcharge on arrears, in basis points of contributionAmount
+        LoanPolicy loans;
+        uint256 requiredGuarantors; // Accepted guarantors needed before a payout or loan (0-2)
+        uint256 joinDeposit; // Escrowed on joining (0 = none); the creator is exempt
+        bool distributeSlashedDeposits; // On Ban: true shares the deposit among compliant members, false adds it to the pot
+        PayoutOrdering payoutOrdering;
+        ShortfallPolicy shortfallPolicy;
+        bool netDebtsFromPayouts; // Deduct unpaid fines and overdue loan repayments from payouts instead of skipping
+        uint256 emergencyApprovalThreshold; // Admin approvals that activate emergency mode (0 = member vote only)
+        uint256 adminApprovalThreshold; // Admins who must make the same sensitive call before it runs (0 or 1 = any admin alone)
+        uint256 timelockDelay; // Seconds admin and creator actions wait before taking effect (0 = immediate)
+        uint256 creatorInactivityPeriods; // Idle periods after which members may vote in a new creator (0 = never)
     }
 
 
@@ -61,7 +118,83 @@ library ChamaStructs {
         CancelPunishment,
         AddAdmin,
         RemoveAdmin,
-        KickMember
+        KickMember,
+        // Parameter changes carry the new value in Proposal.value and apply from the next period
+        ChangeContributionAmount,
+        ChangeGracePeriod,
+        ChangeContributionWindow,
+        ChangeMaxMembers,
+        ChangeProposalDuration,
+        ChangeApprovalRequired, // value: 0 = false, 1 = true
+        TreasurySpend, // Pays Proposal.value to Proposal.target
+        ApproveLoan, // Disburses the requested loan with id Proposal.value
+        EmergencyWithdraw, // Closes the group and returns the pool to members pro rata
+        CancelScheduledAction, // Cancels the timelocked action whose id is Proposal.value
+        // Elections appoint Proposal.target for a term of Proposal.value seconds
+        ElectChair,
+        ElectTreasurer,
+        ElectSecretary,
+        RemoveOfficial, // Removes Proposal.target from the Role numbered Proposal.value
+        ReplaceCreator // Offers the creator role to Proposal.target once the creator has gone inactive
+    }
+
+    // Chama officials; admins keep every power, officials only their role's
+    enum Role {
+        None,
+        Chair, // Punishments and suspensions
+        Treasurer, // Rotation payouts
+        Secretary // Join requests
+    }
+
+    // Highest discount offered for a period's pot in an Auction group
+    struct PayoutBid {
+        address bidder;
+        uint256 discount;
+    }
+
+    // Contributions recorded for a rotation period and how its payout was funded
+    struct PeriodLedger {
+        uint256 collected;
+        uint256 expected; // Full pot at the period's contribution amount, fixed once contributions come in
+        uint256 toppedUp; // Drawn from the reserve to cover a shortfall
+        uint256 paidOut; // Pot released for the period, including any auction discount
+    }
+
+    // A sensitive admin call waiting for other admins to make the same call
+    struct AdminOperation {
+        address proposer;
+        uint256 expiresAt; // 0 = nothing pending
+        address[] confirmers;
+    }
+
+    // An admin or creator call held back until its timelock delay has passed
+    struct ScheduledAction {
+        address scheduler;
+        uint256 eta; // 0 = nothing scheduled
+        uint256 cancelProposalId; // Latest member vote to cancel it, if any
+    }
+
+    // A single-share slot co-owned with another member, who pays and receives coOwnerBps of the hand
+    struct SlotSplit {
+        address coOwner;
+        uint256 coOwnerBps;
+        bool accepted;
+    }
+
+    // Funds paid out of the treasury by an executed TreasurySpend proposal
+    struct SpendRecord {
+        uint256 proposalId;
+        address recipient;
+        uint256 amount;
+        uint256 timestamp;
+        string description;
+    }
+
+    // A governance-approved parameter value waiting for its effective period
+    struct ParameterChange {
+        uint256 value;
+        uint256 effectivePeriod;
+        bool pending;
     }
 
 
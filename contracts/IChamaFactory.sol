@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IChamaFactory
+ * @dev Callbacks a ChamaGroup makes into the factory that deployed it
+ */
+interface IChamaFactory {
+    function recordGroupSettled(uint256 distributed) external;
+}
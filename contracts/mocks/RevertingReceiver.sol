@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroup.sol";
+
+/**
+ * @title RevertingReceiver
+ * @dev Group member contract that rejects incoming ETH until told otherwise, for testing pull payments
+ */
+contract RevertingReceiver {
+    bool public acceptPayments;
+
+    function setAcceptPayments(bool accept) external {
+        acceptPayments = accept;
+    }
+
+    function joinGroup(ChamaGroup group) external payable {
+        group.joinGroup{value: msg.value}();
+    }
+
+    function contribute(ChamaGroup group) external payable {
+        group.contribute{value: msg.value}();
+    }
+
+    function withdraw(ChamaGroup group) external {
+        group.withdraw();
+    }
+
+    receive() external payable {
+        require(acceptPayments, "Payments rejected");
+    }
+}
@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupAdministration
+ * @dev The creator handover, admins, officials and pausing.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupAdministration is ChamaGroupBase {
+    /**
+     * @dev Offer the creator role to an active member (creator only); it passes once they accept
+     * @param revokeOldAdmin Whether the outgoing creator also loses admin rights on handover
+     */
+    function transferCreator(address newCreator, bool revokeOldAdmin) external onlyCreator timelocked {
+        _proposeCreatorTransfer(newCreator, revokeOldAdmin);
+    }
+
+    /**
+     * @dev Withdraw a pending creator transfer (creator only)
+     */
+    function cancelCreatorTransfer() external onlyCreator {
+        require(pendingCreator != address(0), "No pending transfer");
+
+        emit CreatorTransferCancelled(pendingCreator);
+        _clearCreatorTransfer();
+    }
+
+    /**
+     * @dev Accept a creator role offered to the caller
+     */
+    function acceptCreatorTransfer() external onlyActiveMember {
+        require(msg.sender == pendingCreator, "Not pending creator");
+        require(block.timestamp <= pendingCreatorDeadline, "Transfer expired");
+
+        address oldCreator = creator;
+        bool revokeOldAdmin = revokeOldCreatorAdmin;
+        _clearCreatorTransfer();
+
+        creator = msg.sender;
+        creatorLastActivePeriod = _getCurrentPeriod();
+        if (!admins[msg.sender]) {
+            admins[msg.sender] = true;
+            adminCount++;
+            emit AdminAdded(msg.sender);
+        }
+        if (revokeOldAdmin && admins[oldCreator]) {
+            admins[oldCreator] = false;
+            adminCount--;
+            emit AdminRemoved(oldCreator);
+        }
+
+        emit CreatorTransferred(oldCreator, msg.sender);
+    }
+
+    /**
+     * @dev Record that the creator is still around (creator only)
+     */
+    function checkIn() external onlyCreator {}
+
+    /**
+     * @dev Add admin (creator only)
+     */
+    function addAdmin(address newAdmin) external onlyCreator timelocked {
+        require(!admins[newAdmin], "Already an admin");
+        
+        admins[newAdmin] = true;
+        adminCount++;
+        emit AdminAdded(newAdmin);
+    }
+
+    /**
+     * @dev Remove admin (creator only)
+     */
+    function removeAdmin(address admin) external onlyCreator timelocked {
+        require(admin != creator, "Cannot remove creator");
+        require(admins[admin], "Not an admin");
+        
+        admins[admin] = false;
+        adminCount--;
+        emit AdminRemoved(admin);
+    }
+
+    /**
+     * @dev Withdraw the caller's confirmation of a pending operation
+     */
+    function revokeAdminConfirmation(bytes32 operationId) external {
+        require(_isOfficial(msg.sender), "Not admin");
+        ChamaStructs.AdminOperation storage op = adminOperations[operationId];
+        require(op.expiresAt >= block.timestamp, "No pending operation");
+
+        uint256 length = op.confirmers.length;
+        uint256 i = 0;
+        while (i < length && op.confirmers[i] != msg.sender) i++;
+        require(i < length, "Not confirmed");
+
+        op.confirmers[i] = op.confirmers[length - 1];
+        op.confirmers.pop();
+        emit AdminOperationRevoked(operationId, msg.sender, _countAdminConfirmations(op));
+
+        if (op.confirmers.length == 0) {
+            delete adminOperations[operationId];
+        }
+    }
+
+    /**
+     * @dev Appoint an official (creator only); term is in seconds, 0 = until revoked
+     */
+    function grantRole(ChamaStructs.Role role, address account, uint256 term) external onlyCreator timelocked {
+        _grantRole(role, account, term);
+    }
+
+    /**
+     * @dev Remove an official (creator only)
+     */
+    function revokeRole(ChamaStructs.Role role, address account) external onlyCreator timelocked {
+        _revokeRole(role, account);
+    }
+
+    /**
+     * @dev Emergency pause (admin only)
+     */
+    function pause() external onlyApprovedAdmin {
+        _pause();
+    }
+
+    /**
+     * @dev Unpause (admin only)
+     */
+    function unpause() external onlyApprovedAdmin {
+        _unpause();
+    }
+}
@@ -0,0 +1,182 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupContributions
+ * @dev Contributions, installments, prepayments and arrears.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupContributions is ChamaGroupBase {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @dev Enhanced contribution with token support and timing validation
+     */
+   function contribute() external payable onlyActiveMember onlyActiveGroup nonReentrant {
+    uint256 period = _getCurrentPeriod();
+    require(contributionTimestamps[msg.sender][period] == 0, "Already contributed this period");
+
+    // Check and punish for any missed previous periods
+    checkAndPunishMissedContributions(msg.sender);
+    
+    // If member got banned due to missed contributions, they can't contribute
+    require(members[msg.sender].isActive, "Member is not active (possibly banned for missed contributions)");
+    
+    // Check if within contribution window
+    uint256 periodStart = _getPeriodStart(period);
+    require(
+        block.timestamp <= periodStart + contributionWindow + gracePeriod,
+        "Contribution window closed"
+    );
+
+    // Any installments already paid this period count towards the amount due
+    uint256 amountDue = _getOutstandingAmount(msg.sender, period);
+    require(amountDue > 0, "No shares held");
+
+    if (isTokenBased) {
+        require(msg.value == 0, "Don't send ETH for token contributions");
+        contributionToken.safeTransferFrom(msg.sender, address(this), amountDue);
+    } else {
+        require(msg.value == amountDue, "Incorrect contribution amount");
+    }
+
+    contributionTimestamps[msg.sender][period] = block.timestamp;
+    members[msg.sender].totalContributed += amountDue;
+    totalFunds += amountDue;
+    _recordContribution(msg.sender, period, amountDue);
+
+    emit ContributionMade(msg.sender, amountDue, period, block.timestamp);
+}
+
+    /**
+     * @dev Pay part of the current period's contribution; the period is fulfilled once the full amount is reached
+     */
+    function contributeInstallment(uint256 amount) external payable onlyActiveMember onlyActiveGroup nonReentrant {
+        address user = msg.sender;
+        uint256 period = _getCurrentPeriod();
+        require(contributionTimestamps[user][period] == 0, "Already contributed this period");
+        require(amount > 0, "Invalid installment amount");
+
+        checkAndPunishMissedContributions(user);
+        require(members[user].isActive, "Member is not active (possibly banned for missed contributions)");
+
+        require(
+            block.timestamp <= _getPeriodStart(period) + contributionWindow + gracePeriod,
+            "Contribution window closed"
+        );
+
+        uint256 amountDue = _contributionDue(user);
+        uint256 totalPaid = periodPaidAmount[user][period] + amount;
+        require(totalPaid <= amountDue, "Installment exceeds amount due");
+
+        if (isTokenBased) {
+            require(msg.value == 0, "Don't send ETH for token contributions");
+            contributionToken.safeTransferFrom(user, address(this), amount);
+        } else {
+            require(msg.value == amount, "Incorrect installment amount");
+        }
+
+        periodPaidAmount[user][period] = totalPaid;
+        members[user].totalContributed += amount;
+        totalFunds += amount;
+        _recordContribution(user, period, amount);
+
+        emit InstallmentPaid(user, amount, period, totalPaid);
+
+        if (totalPaid == amountDue) {
+            contributionTimestamps[user][period] = block.timestamp;
+            emit ContributionMade(user, amountDue, period, block.timestamp);
+        }
+    }
+
+    /**
+     * @dev Pay the next n unpaid periods up front, starting with the current one if its window is open
+     * Prepaid periods are recorded in contributionTimestamps, so payouts and missed checks treat them as paid
+     */
+    function prepayContributions(uint256 periods) external payable onlyActiveMember onlyActiveGroup nonReentrant {
+        require(periods > 0, "Invalid number of periods");
+        address user = msg.sender;
+
+        checkAndPunishMissedContributions(user);
+        require(members[user].isActive, "Member is not active (possibly banned for missed contributions)");
+
+        uint256 amountDue = _contributionDue(user);
+        require(amountDue > 0, "No shares held");
+        uint256 amount = amountDue * periods;
+        if (isTokenBased) {
+            require(msg.value == 0, "Don't send ETH for token contributions");
+            contributionToken.safeTransferFrom(user, address(this), amount);
+        } else {
+            require(msg.value == amount, "Incorrect prepayment amount");
+        }
+
+        uint256 period = _getCurrentPeriod();
+        if (block.timestamp > _getPeriodStart(period) + contributionWindow + gracePeriod) {
+            period++;
+        }
+
+        uint256 credited = 0;
+        for (; credited < periods; period++) {
+            require(_getPeriodStart(period) <= rules.endDate, "Prepayment exceeds group end");
+            if (contributionTimestamps[user][period] != 0 || periodPaidAmount[user][period] > 0) continue;
+
+            contributionTimestamps[user][period] = block.timestamp;
+            prepaidPeriods[user][period] = true;
+            _recordContribution(user, period, amountDue);
+            credited++;
+            emit ContributionMade(user, amountDue, period, block.timestamp);
+        }
+
+        if (period > prepaidUntil[user]) prepaidUntil[user] = period;
+        members[user].totalContributed += amount;
+        totalFunds += amount;
+
+        emit ContributionsPrepaid(user, periods, amount, period - 1);
+    }
+
+    /**
+     * @dev Settle a missed past period with the contribution plus the late fee
+     */
+    function payArrears(uint256 period) external payable onlyActiveMember onlyActiveGroup nonReentrant {
+        address user = msg.sender;
+        require(contributionTimestamps[user][period] == 0, "Period already paid");
+        require(
+            block.timestamp > _getPeriodStart(period) + contributionWindow + gracePeriod,
+            "Contribution window still open"
+        );
+        require(members[user].joinedAt < _getPeriodStart(period + 1), "Period before membership");
+
+        uint256 lateFee = _getLateFee();
+        uint256 outstanding = _getOutstandingAmount(user, period);
+        uint256 amountDue = outstanding + lateFee;
+
+        if (isTokenBased) {
+            require(msg.value == 0, "Don't send ETH for token contributions");
+            contributionToken.safeTransferFrom(user, address(this), amountDue);
+        } else {
+            require(msg.value == amountDue, "Incorrect arrears amount");
+        }
+
+        contributionTimestamps[user][period] = block.timestamp;
+        members[user].totalContributed += outstanding;
+        totalFunds += amountDue;
+        _recordContribution(user, period, outstanding);
+
+        // Only undo the miss if the period was already counted against the member
+        uint256 lastChecked = lastCheckedPeriod[user];
+        if (lastChecked != type(uint256).max && period <= lastChecked && members[user].missedContributions > 0) {
+            members[user].missedContributions--;
+        }
+
+        // The member has now covered the period their guarantors were charged for
+        uint256 charged = guarantorChargedFor[user][period];
+        if (charged > 0) {
+            guarantorChargedFor[user][period] = 0;
+            _reverseGuarantorCharge(user, charged);
+        }
+
+        emit ArrearsPaid(user, period, amountDue, lateFee);
+    }
+}
@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupDiscipline
+ * @dev Missed-contribution checks, fines and manual punishments.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupDiscipline is ChamaGroupBase {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @dev Admin function to manually check missed contributions for any member
+     * This replaces the existing checkMissedContribution function
+     */
+    function checkMissedContribution(address user) external onlyAdmin {
+        checkAndPunishMissedContributions(user);
+    }
+
+    /**
+     * @dev Batch check missed contributions for multiple members (gas efficient)
+     */
+    function batchCheckMissedContributions(address[] calldata users) external onlyAdmin {
+        for (uint256 i = 0; i < users.length; i++) {
+            checkAndPunishMissedContributions(users[i]);
+        }
+    }
+
+    /**
+     * @dev Reset last checked period (admin only - for emergency cases)
+     */
+    function resetLastCheckedPeriod(address user, uint256 period) external onlyApprovedAdmin {
+        require(period <= _getCurrentPeriod(), "Cannot set future period");
+        lastCheckedPeriod[user] = period;
+    }
+
+    /**
+     * @dev Enhanced fine payment with token support
+     */
+    function payFine() external payable nonReentrant {
+        ChamaStructs.Punishment storage punishment = punishments[msg.sender];
+        require(punishment.isActive, "No active punishment");
+        require(punishment.action == ChamaStructs.PunishmentAction.Fine, "Not a fine punishment");
+
+        uint256 fineAmount = punishment.fineAmount;
+        
+        if (isTokenBased) {
+            require(msg.value == 0, "Don't send ETH for token fines");
+            contributionToken.safeTransferFrom(msg.sender, address(this), fineAmount);
+        } else {
+            require(msg.value == fineAmount, "Incorrect fine amount");
+        }
+
+        _resolvePunishment(msg.sender);
+        members[msg.sender].consecutiveFines = 0;
+        totalFunds += fineAmount;
+        
+        emit FineCollected(msg.sender, fineAmount);
+    }
+
+    /**
+     * @dev Cancel punishment (admin only)
+     */
+    function cancelPunishment(address user) external onlyApprovedAdminOrRole(ChamaStructs.Role.Chair) {
+        _cancelPunishmentInternal(user);
+    }
+
+    /**
+     * @dev Manual punishment (admin only)
+     */
+    function punishMember(
+        address user,
+        ChamaStructs.PunishmentAction action,
+        string calldata reason
+    ) external onlyApprovedAdminOrRole(ChamaStructs.Role.Chair) timelocked {
+        require(members[user].exists, "User is not a member");
+        require(action != ChamaStructs.PunishmentAction.None, "Invalid punishment action");
+        require(
+            action != ChamaStructs.PunishmentAction.Warning || !_hasFineOrBan(user),
+            "Member has a heavier punishment"
+        );
+        
+        uint256 fineAmount = 0;
+        if (action == ChamaStructs.PunishmentAction.Fine) {
+            fineAmount = _getFineAmount();
+        }
+
+        if (action == ChamaStructs.PunishmentAction.Ban) {
+            members[user].isActive = false;
+            _uncountActive(user);
+        }
+
+        _issuePunishment(user, action, reason, fineAmount, 0);
+    }
+
+    /**
+     * @dev Temporarily ban a member for a number of periods, counting the current one (admin only)
+     */
+    function suspendMember(
+        address user,
+        uint256 periods,
+        string calldata reason
+    ) external onlyApprovedAdminOrRole(ChamaStructs.Role.Chair) timelocked {
+        require(members[user].exists && members[user].isActive, "Invalid member");
+        require(periods > 0, "Invalid suspension length");
+
+        members[user].isActive = false;
+        _uncountActive(user);
+
+        _issuePunishment(user, ChamaStructs.PunishmentAction.Ban, reason, 0, _suspensionExpiry(periods));
+    }
+
+    /**
+     * @dev Apply an expired suspension or overdue fine for any member (callable by anyone)
+     */
+    function processExpiredPunishment(address user) external {
+        _refreshPunishment(user);
+    }
+}
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupGovernance
+ * @dev Member proposals and the parameter changes they schedule.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupGovernance is ChamaGroupBase {
+    /**
+     * @dev Enhanced proposal creation
+     */
+    function createProposal(
+        ChamaStructs.ProposalType proposalType,
+        address target,
+        uint256 value,
+        string calldata description
+    ) external onlyActiveMember returns (uint256) {
+        if (_isParameterChange(proposalType)) {
+            _validateParameterChange(proposalType, value);
+        } else if (proposalType == ChamaStructs.ProposalType.TreasurySpend) {
+            require(target != address(0), "Invalid spend recipient");
+            require(value > 0, "Invalid spend amount");
+        } else if (proposalType == ChamaStructs.ProposalType.ApproveLoan) {
+            require(loans[value].status == ChamaStructs.LoanStatus.Requested, "Loan not pending");
+        } else if (proposalType == ChamaStructs.ProposalType.EmergencyWithdraw) {
+            require(rules.emergencyWithdrawAllowed, "Emergency withdraw not allowed");
+        } else if (proposalType == ChamaStructs.ProposalType.CancelScheduledAction) {
+            ChamaStructs.ScheduledAction storage action = scheduledActions[bytes32(value)];
+            require(action.eta > block.timestamp, "No scheduled action");
+            if (action.cancelProposalId != 0) {
+                // One vote at a time, and a passed one can't be replaced
+                Proposal storage previous = proposals[action.cancelProposalId];
+                require(block.timestamp > previous.createdAt + proposalDuration, "Cancellation vote active");
+                require(!_isProposalCarried(previous), "Cancellation vote passed");
+            }
+            action.cancelProposalId = proposalCounter + 1;
+        } else if (_isElection(proposalType)) {
+            require(members[target].isActive, "Invalid member");
+            require(value > 0, "Invalid term");
+        } else if (proposalType == ChamaStructs.ProposalType.RemoveOfficial) {
+            require(value > uint256(ChamaStructs.Role.None) && value <= uint256(ChamaStructs.Role.Secretary), "Invalid role");
+            require(roleExpiresAt[target][ChamaStructs.Role(value)] != 0, "Role not held");
+        } else if (proposalType == ChamaStructs.ProposalType.ReplaceCreator) {
+            require(_isCreatorInactive(), "Creator is active");
+            require(target != creator && members[target].isActive, "Invalid member");
+        }
+
+        proposalCounter++;
+        Proposal storage p = proposals[proposalCounter];
+        
+        p.proposalType = proposalType;
+        p.target = target;
+        p.value = value;
+        p.description = description;
+        p.createdAt = block.timestamp;
+
+        emit ProposalCreated(proposalCounter, proposalType, msg.sender);
+        return proposalCounter;
+    }
+
+    /**
+     * @dev Vote on proposal
+     * FIXED: Updated to use external mapping
+     */
+    function voteOnProposal(uint256 proposalId, bool support) external onlyActiveMember {
+        Proposal storage p = proposals[proposalId];
+        require(!p.executed, "Already executed");
+        require(block.timestamp <= p.createdAt + proposalDuration, "Voting period over");
+        require(!proposalVotes[proposalId][msg.sender], "Already voted");
+
+        proposalVotes[proposalId][msg.sender] = true;
+
+        if (support) {
+            p.votesFor++;
+        } else {
+            p.votesAgainst++;
+        }
+    }
+
+    /**
+     * @dev Enhanced proposal execution
+     * FIXED: Improved quorum calculation to avoid rounding to zero
+     */
+    function executeProposal(uint256 proposalId) external nonReentrant {
+        _applyParameterChanges();
+        Proposal storage p = proposals[proposalId];
+        // Any member can carry out a creator replacement, since the idle creator may be the only admin
+        if (p.proposalType == ChamaStructs.ProposalType.ReplaceCreator) {
+            require(members[msg.sender].isActive, "Not an active member");
+        } else {
+            require(admins[msg.sender], "Not admin");
+        }
+        _recordCreatorActivity();
+        require(!p.executed, "Already executed");
+        require(block.timestamp > p.createdAt + proposalDuration, "Voting still active");
+        
+        require(p.votesFor + p.votesAgainst >= _requiredVotes(), "Insufficient participation");
+        require(p.votesFor > p.votesAgainst, "Proposal rejected");
+        
+        bool success = _executeProposalAction(proposalId, p);
+        p.executed = true;
+        
+        emit ProposalExecuted(proposalId, success);
+    }
+
+    /**
+     * @dev Apply any approved parameter changes whose effective period has started (callable by anyone)
+     */
+    function applyParameterChanges() external {
+        _applyParameterChanges();
+    }
+}
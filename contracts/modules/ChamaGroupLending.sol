@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupLending
+ * @dev Table-banking loans and the guarantors who co-sign them.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupLending is ChamaGroupBase {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @dev Request a loan from the pooled fund, to be approved by an admin or an ApproveLoan proposal
+     */
+    function requestLoan(uint256 amount) external onlyActiveMember onlyActiveGroup returns (uint256) {
+        address borrower = msg.sender;
+        require(loanPolicy.maxLoanBps > 0, "Loans not enabled");
+        require(activeLoanId[borrower] == 0, "Existing loan");
+        require(!punishments[borrower].isActive, "Cannot borrow with active punishment");
+        require(amount > 0 && amount <= _getMaxLoanAmount(borrower), "Invalid loan amount");
+
+        loanCounter++;
+        loans[loanCounter] = ChamaStructs.Loan({
+            borrower: borrower,
+            principal: amount,
+            interest: (amount * loanPolicy.interestBps) / BASIS_POINTS,
+            repaid: 0,
+            installmentAmount: 0,
+            firstDuePeriod: 0,
+            repaymentPeriods: loanPolicy.repaymentPeriods,
+            requestedAt: block.timestamp,
+            status: ChamaStructs.LoanStatus.Requested
+        });
+        activeLoanId[borrower] = loanCounter;
+
+        emit LoanRequested(loanCounter, borrower, amount);
+        return loanCounter;
+    }
+
+    /**
+     * @dev Approve and disburse a loan request (admin only, not for the admin's own loan)
+     */
+    function approveLoan(uint256 loanId) external onlyAdmin onlyActiveGroup nonReentrant {
+        require(loans[loanId].borrower != msg.sender, "Cannot approve own loan");
+        _disburseLoan(loanId);
+    }
+
+    /**
+     * @dev Reject a loan request (admin) or withdraw it (borrower)
+     */
+    function rejectLoan(uint256 loanId) external {
+        ChamaStructs.Loan storage loan = loans[loanId];
+        require(admins[msg.sender] || msg.sender == loan.borrower, "Not admin or borrower");
+        require(loan.status == ChamaStructs.LoanStatus.Requested, "Loan not pending");
+
+        loan.status = ChamaStructs.LoanStatus.Rejected;
+        activeLoanId[loan.borrower] = 0;
+        emit LoanRejected(loanId);
+    }
+
+    /**
+     * @dev Repay part or all of the caller's outstanding loan; interest stays in the pool
+     */
+    function repayLoan(uint256 amount) external payable nonReentrant {
+        uint256 loanId = activeLoanId[msg.sender];
+        ChamaStructs.Loan storage loan = loans[loanId];
+        require(
+            loan.status == ChamaStructs.LoanStatus.Active || loan.status == ChamaStructs.LoanStatus.Defaulted,
+            "No outstanding loan"
+        );
+
+        uint256 remaining = _getLoanBalance(loanId);
+        require(amount > 0 && amount <= remaining, "Invalid repayment amount");
+
+        if (isTokenBased) {
+            require(msg.value == 0, "Don't send ETH for token repayments");
+            contributionToken.safeTransferFrom(msg.sender, address(this), amount);
+        } else {
+            require(msg.value == amount, "Incorrect repayment amount");
+        }
+
+        loan.repaid += amount;
+        totalFunds += amount;
+        remaining -= amount;
+
+        if (remaining == 0) {
+            loan.status = ChamaStructs.LoanStatus.Repaid;
+            activeLoanId[msg.sender] = 0;
+        }
+
+        emit LoanRepayment(loanId, amount, remaining);
+    }
+
+    /**
+     * @dev Mark a loan defaulted once an installment from a finished period is unpaid, and punish the borrower
+     */
+    function checkLoanDefault(uint256 loanId) external onlyAdmin {
+        ChamaStructs.Loan storage loan = loans[loanId];
+        require(loan.status == ChamaStructs.LoanStatus.Active, "Loan not active");
+
+        uint256 period = _getCurrentPeriod();
+        require(
+            period > loan.firstDuePeriod && loan.repaid < _getLoanAmountDue(loanId, period - 1),
+            "Loan not in default"
+        );
+
+        loan.status = ChamaStructs.LoanStatus.Defaulted;
+        emit LoanDefaulted(loanId, loan.borrower);
+
+        // Guarantors take over the whole remaining balance
+        if (_getActiveGuarantorCount(loan.borrower) > 0) {
+            _chargeGuarantors(loan.borrower, _getLoanBalance(loanId));
+            loan.status = ChamaStructs.LoanStatus.Covered;
+            activeLoanId[loan.borrower] = 0;
+        }
+
+        _applyPunishment(loan.borrower, "Loan default");
+    }
+
+    /**
+     * @dev Ask an active member to guarantee the caller
+     */
+    function nominateGuarantor(address guarantor) external onlyActiveMember {
+        require(guarantor != msg.sender, "Cannot guarantee yourself");
+        require(members[guarantor].exists && members[guarantor].isActive, "Guarantor not an active member");
+        require(guaranteeStatus[msg.sender][guarantor] == ChamaStructs.GuaranteeStatus.None, "Already nominated");
+        require(guarantorsOf[msg.sender].length < MAX_GUARANTORS, "Too many guarantors");
+
+        guaranteeStatus[msg.sender][guarantor] = ChamaStructs.GuaranteeStatus.Pending;
+        guarantorsOf[msg.sender].push(guarantor);
+        emit GuarantorNominated(msg.sender, guarantor);
+    }
+
+    /**
+     * @dev Consent to guarantee a member who nominated the caller
+     */
+    function acceptGuarantee(address member) external onlyActiveMember {
+        require(guaranteeStatus[member][msg.sender] == ChamaStructs.GuaranteeStatus.Pending, "No pending nomination");
+
+        guaranteeStatus[member][msg.sender] = ChamaStructs.GuaranteeStatus.Active;
+        guaranteesGiven[msg.sender].push(member);
+        emit GuaranteeAccepted(member, msg.sender);
+    }
+
+    /**
+     * @dev Withdraw a nomination or guarantee (member or guarantor). Accepted guarantees
+     * can't be revoked once the member has been paid out or has a loan.
+     */
+    function revokeGuarantee(address member, address guarantor) external {
+        require(msg.sender == member || msg.sender == guarantor, "Not member or guarantor");
+        ChamaStructs.GuaranteeStatus status = guaranteeStatus[member][guarantor];
+        require(status != ChamaStructs.GuaranteeStatus.None, "No guarantee");
+
+        if (status == ChamaStructs.GuaranteeStatus.Active) {
+            require(!_isGuaranteeInUse(member), "Guarantee in use");
+            _removeAddress(guaranteesGiven[guarantor], member);
+        }
+        _removeAddress(guarantorsOf[member], guarantor);
+        guaranteeStatus[member][guarantor] = ChamaStructs.GuaranteeStatus.None;
+
+        emit GuaranteeRevoked(member, guarantor);
+    }
+}
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupMembership
+ * @dev Joining and leaving, join requests and deposits.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupMembership is ChamaGroupBase {
+    /**
+     * @dev Join group (with or without approval), escrowing the join deposit if the group has one
+     */
+    function joinGroup() external payable onlyActiveGroup nonReentrant {
+        _join(1);
+    }
+
+    /**
+     * @dev Join holding several shares of the rotation, or none to co-own another member's slot
+     */
+    function joinGroupWithShares(uint256 shares) external payable onlyActiveGroup nonReentrant {
+        _join(shares);
+    }
+
+    /**
+     * @dev Withdraw a pending join request and its deposit
+     */
+    function cancelJoinRequest() external nonReentrant {
+        require(joinRequests[msg.sender], "No join request found");
+        joinRequests[msg.sender] = false;
+
+        uint256 amount = deposits[msg.sender];
+        if (amount > 0) {
+            deposits[msg.sender] = 0;
+            totalDeposits -= amount;
+            _payOut(msg.sender, amount);
+            emit DepositReturned(msg.sender, amount);
+        }
+    }
+
+    /**
+     * @dev Reclaim the join deposit once the group has ended
+     */
+    function claimDeposit() external nonReentrant {
+        require(block.timestamp > rules.endDate || emergencyMode, "Group has not ended");
+        require(deposits[msg.sender] > 0, "No deposit");
+        require(!punishments[msg.sender].isActive, "Cannot claim with active punishment");
+        require(activeLoanId[msg.sender] == 0, "Outstanding loan");
+
+        uint256 amount = _returnDeposit(msg.sender);
+        if (amount > 0) {
+            _payOut(msg.sender, amount);
+        }
+    }
+
+    /**
+     * @dev Leave group with potential refund
+     */
+    function leaveGroup() external onlyActiveMember nonReentrant {
+        address user = msg.sender;
+        require(!punishments[user].isActive, "Cannot leave with active punishment");
+        require(activeLoanId[user] == 0, "Outstanding loan");
+        require(!_isGuaranteeingInUse(user), "Guarantee in use");
+        
+        uint256 refundAmount = _collectGuarantorDebt(user, _calculateRefund(user));
+        _releaseContributions(user, memberPayoutPeriods[user].length > 0);
+        prepaidUntil[user] = 0;
+        if (refundAmount > 0) {
+            totalFunds -= refundAmount;
+        }
+
+        // The deposit comes out of escrow, not totalFunds
+        uint256 depositAmount = _returnDeposit(user);
+        
+        // FIXED: Zero state before transfer for extra reentrancy protection
+        _removeMember(user);
+        
+        // Process refund if applicable
+        if (refundAmount + depositAmount > 0) {
+            _payOut(user, refundAmount + depositAmount);
+        }
+        
+        emit MemberLeft(user, refundAmount, block.timestamp);
+    }
+
+    /**
+     * @dev Approve join request (admin only)
+     */
+    function approveJoinRequest(address user) external onlyAdminOrRole(ChamaStructs.Role.Secretary) onlyActiveGroup {
+        require(joinRequests[user], "No join request found");
+        require(memberCount < rules.maxMembers, "Group is full");
+        
+        joinRequests[user] = false;
+        _addMember(user, requestedShares[user]);
+        
+        emit JoinRequestApproved(user, msg.sender);
+    }
+}
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupPayouts
+ * @dev Rotation payouts and the ordering strategies that pick each recipient.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupPayouts is ChamaGroupBase {
+    /**
+     * @dev Pay the current period's pot to the member picked by the group's payout ordering, skipping ineligible members
+     */
+    function processRotationPayout()
+        external
+        onlyActiveGroup
+        nonReentrant
+        onlyApprovedAdminOrRole(ChamaStructs.Role.Treasurer)
+    {
+        _processPayout(_getCurrentPeriod());
+    }
+
+    /**
+     * @dev Process the payout for a past period that was held up, e.g. until arrears were settled
+     */
+    function processPastRotationPayout(uint256 period)
+        external
+        onlyActiveGroup
+        nonReentrant
+        onlyApprovedAdminOrRole(ChamaStructs.Role.Treasurer)
+    {
+        require(period < _getCurrentPeriod(), "Period not in the past");
+        _processPayout(period);
+    }
+
+    /**
+     * @dev Commit to a secret for this period's random draw (RandomDraw groups, during the contribution window)
+     * @param commitment keccak256(abi.encodePacked(secret, msg.sender))
+     */
+    function commitDrawSeed(bytes32 commitment) external onlyActiveMember onlyActiveGroup {
+        require(payoutOrdering == ChamaStructs.PayoutOrdering.RandomDraw, "Random draw not enabled");
+        uint256 period = _getCurrentPeriod();
+        require(block.timestamp < _getPeriodStart(period) + contributionWindow, "Commit phase closed");
+        require(commitment != bytes32(0), "Invalid commitment");
+        require(drawCommitments[period][msg.sender] == bytes32(0), "Already committed");
+
+        drawCommitments[period][msg.sender] = commitment;
+        drawCommits[period]++;
+        emit DrawSeedCommitted(msg.sender, period);
+    }
+
+    /**
+     * @dev Reveal a committed secret between the close of the contribution window and the reveal deadline;
+     * every reveal changes the seed
+     */
+    function revealDrawSeed(bytes32 secret) external onlyActiveMember onlyActiveGroup {
+        require(payoutOrdering == ChamaStructs.PayoutOrdering.RandomDraw, "Random draw not enabled");
+        uint256 period = _getCurrentPeriod();
+        require(block.timestamp >= _getPeriodStart(period) + contributionWindow, "Reveal phase not open");
+        require(block.timestamp < _drawRevealDeadline(period), "Reveal phase closed");
+
+        bytes32 commitment = drawCommitments[period][msg.sender];
+        require(commitment != bytes32(0), "No commitment");
+        require(keccak256(abi.encodePacked(secret, msg.sender)) == commitment, "Invalid reveal");
+
+        drawCommitments[period][msg.sender] = bytes32(0);
+        drawSeeds[period] ^= secret;
+        drawReveals[period]++;
+        emit DrawSeedRevealed(msg.sender, period);
+    }
+
+    /**
+     * @dev Offer to take this period's pot early for less (Auction groups); the highest discount wins
+     */
+    function placePayoutBid(uint256 discount) external onlyActiveMember onlyActiveGroup {
+        require(payoutOrdering == ChamaStructs.PayoutOrdering.Auction, "Auction not enabled");
+        uint256 period = _getCurrentPeriod();
+        require(payoutHistory[period].recipient == address(0), "Already processed this period");
+        require(_isAwaitingPayout(msg.sender), "Not awaiting a payout");
+        require(discount < rules.contributionAmount * activeShares, "Invalid discount");
+
+        ChamaStructs.PayoutBid storage bid = payoutBids[period];
+        require(discount > bid.discount, "Bid too low");
+
+        bid.bidder = msg.sender;
+        bid.discount = discount;
+        emit PayoutBidPlaced(msg.sender, period, discount);
+    }
+
+    /**
+     * @dev Vote for the member in greatest need to receive this period's pot (Vote groups)
+     */
+    function voteForRecipient(address candidate) external onlyActiveMember onlyActiveGroup {
+        require(payoutOrdering == ChamaStructs.PayoutOrdering.Vote, "Recipient voting not enabled");
+        uint256 period = _getCurrentPeriod();
+        require(payoutHistory[period].recipient == address(0), "Already processed this period");
+        require(!hasVotedForRecipient[period][msg.sender], "Already voted");
+        require(members[candidate].isActive && _isAwaitingPayout(candidate), "Invalid candidate");
+
+        hasVotedForRecipient[period][msg.sender] = true;
+        uint256 votes = ++recipientVotes[period][candidate];
+
+        // Ties go to whoever reached the count first
+        if (votes > recipientVotes[period][recipientVoteLeader[period]]) {
+            recipientVoteLeader[period] = candidate;
+        }
+        emit RecipientVoteCast(msg.sender, candidate, period);
+    }
+}
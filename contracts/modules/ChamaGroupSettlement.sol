@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupSettlement
+ * @dev End-of-cycle settlement, emergency mode and pull-payment withdrawals.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupSettlement is ChamaGroupBase {
+    /**
+     * @dev Withdraw payments credited to the caller
+     */
+    function withdraw() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+
+        pendingWithdrawals[msg.sender] = 0;
+        totalPendingWithdrawals -= amount;
+        _transferFunds(msg.sender, amount);
+
+        emit Withdrawal(msg.sender, amount);
+    }
+
+    /**
+     * @dev Opt in or out of having payments credited instead of pushed
+     */
+    function setPullPayments(bool enabled) external {
+        pullPaymentsOnly[msg.sender] = enabled;
+        emit PullPaymentsSet(msg.sender, enabled);
+    }
+
+    /**
+     * @dev Close the group once its end date has passed and split the pot into member claims.
+     * Each remaining member is owed what they contributed minus what they were paid out, less
+     * any loan or guarantor debt. If the pot can't cover that, claims are scaled down pro rata;
+     * anything left over (fines, skipped payouts) is shared equally among compliant members.
+     */
+    function settleGroup() external nonReentrant {
+        require(block.timestamp > rules.endDate, "Group has not ended");
+        require(!settled, "Group already settled");
+        require(!emergencyMode, "Emergency mode active");
+
+        settled = true;
+        isActive = false;
+
+        uint256 pool = totalFunds;
+        uint256 totalOwed = 0;
+        uint256 compliant = 0;
+        for (uint256 i = 0; i < memberList.length; i++) {
+            address member = memberList[i];
+            if (_hasLeft(member)) continue;
+
+            uint256 owed = _settleDebts(member, _netContribution(member));
+            settlementClaims[member] = owed;
+            totalOwed += owed;
+            if (_isCompliantMember(member, address(0))) compliant++;
+        }
+
+        uint256 surplusShare = 0;
+        if (pool > totalOwed && compliant > 0) {
+            surplusShare = (pool - totalOwed) / compliant;
+        }
+
+        uint256 distributed = 0;
+        for (uint256 i = 0; i < memberList.length; i++) {
+            address member = memberList[i];
+            if (_hasLeft(member)) continue;
+
+            uint256 claim = settlementClaims[member];
+            if (pool < totalOwed) {
+                claim = (claim * pool) / totalOwed;
+            } else if (_isCompliantMember(member, address(0))) {
+                claim += surplusShare;
+            }
+            settlementClaims[member] = claim;
+            distributed += claim;
+        }
+
+        totalFunds = pool - distributed;
+        unclaimedSettlement = distributed;
+        undisbursedContributions = 0;
+
+        emit GroupSettled(distributed, totalFunds, block.timestamp);
+        IChamaFactory(factory).recordGroupSettled(distributed);
+    }
+
+    /**
+     * @dev Withdraw the caller's share of a settled group
+     */
+    function claimSettlement() external nonReentrant {
+        require(settled, "Group not settled");
+        uint256 amount = settlementClaims[msg.sender];
+        require(amount > 0, "Nothing to claim");
+
+        settlementClaims[msg.sender] = 0;
+        unclaimedSettlement -= amount;
+        _payOut(msg.sender, amount);
+
+        emit SettlementClaimed(msg.sender, amount);
+    }
+
+    /**
+     * @dev Approve emergency mode (admin only); it activates once enough current admins have approved
+     */
+    function approveEmergencyWithdraw() external nonReentrant onlyAdmin {
+        require(rules.emergencyWithdrawAllowed, "Emergency withdraw not allowed");
+        require(emergencyApprovalThreshold > 0, "Admin approval disabled");
+        require(!hasApprovedEmergency[msg.sender], "Already approved");
+
+        hasApprovedEmergency[msg.sender] = true;
+        emergencyApprovers.push(msg.sender);
+
+        uint256 approvals = _getEmergencyApprovalCount();
+        emit EmergencyWithdrawApproved(msg.sender, approvals, emergencyApprovalThreshold);
+
+        if (approvals >= emergencyApprovalThreshold) {
+            _activateEmergencyMode();
+        }
+    }
+}
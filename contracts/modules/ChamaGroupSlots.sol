@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupSlots
+ * @dev The payout queue and members' places in it: shared slots and swaps.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupSlots is ChamaGroupBase {
+    /**
+     * @dev Set payout queue (creator only)
+     */
+    function setPayoutQueue(address[] calldata queue) external onlyCreator timelocked {
+        require(payoutQueue.length == 0, "Queue is already set");
+        require(queue.length == _totalShares(), "Invalid queue length");
+        
+        // Each member appears once per share they hold
+        for (uint i = 0; i < queue.length; i++) {
+            require(members[queue[i]].exists && !_hasLeft(queue[i]), "Invalid member in queue");
+            require(members[queue[i]].shares > 0, "Member holds no shares");
+            uint256 slots = 1;
+            for (uint j = 0; j < i; j++) {
+                if (queue[j] == queue[i]) slots++;
+            }
+            require(slots <= members[queue[i]].shares, "Duplicate member in queue");
+        }
+        payoutQueue = queue;
+    }
+
+    /**
+     * @dev Offer to share the caller's single-share slot with a member holding no shares,
+     * who then pays and receives coOwnerBps of each contribution and payout
+     */
+    function offerSlotSplit(address coOwner, uint256 coOwnerBps) external onlyActiveMember onlyActiveGroup {
+        require(members[msg.sender].shares == 1, "Only single-share slots can be split");
+        require(!slotSplits[msg.sender].accepted, "Slot already split");
+        require(coOwnerBps > 0 && coOwnerBps < BASIS_POINTS, "Invalid split");
+        _validateSlotSplit(msg.sender, coOwner);
+
+        slotSplits[msg.sender] = ChamaStructs.SlotSplit({
+            coOwner: coOwner,
+            coOwnerBps: coOwnerBps,
+            accepted: false
+        });
+        emit SlotSplitOffered(msg.sender, coOwner, coOwnerBps);
+    }
+
+    /**
+     * @dev Accept a co-ownership offer, taking on the offered share of the primary's slot
+     */
+    function acceptSlotSplit(address primary) external onlyActiveMember onlyActiveGroup {
+        ChamaStructs.SlotSplit storage split = slotSplits[primary];
+        require(split.coOwner == msg.sender && !split.accepted, "No split offer");
+        _validateSlotSplit(primary, msg.sender);
+
+        // Periods before the split were never due from the co-owner
+        checkAndPunishMissedContributions(msg.sender);
+
+        split.accepted = true;
+        coOwnedSlotOf[msg.sender] = primary;
+        emit SlotSplitAccepted(primary, msg.sender, split.coOwnerBps);
+    }
+
+    /**
+     * @dev Offer to trade places in the rotation with another member; both must still be waiting for a payout
+     */
+    function offerPayoutSwap(address counterparty) external onlyActiveMember onlyActiveGroup {
+        require(counterparty != msg.sender, "Cannot swap with yourself");
+        _validatePayoutSwap(msg.sender, counterparty);
+
+        payoutSwapOffers[msg.sender] = counterparty;
+        emit PayoutSwapOffered(msg.sender, counterparty);
+    }
+
+    /**
+     * @dev Withdraw the caller's open swap offer
+     */
+    function cancelPayoutSwap() external {
+        require(payoutSwapOffers[msg.sender] != address(0), "No swap offer");
+        payoutSwapOffers[msg.sender] = address(0);
+        emit PayoutSwapCancelled(msg.sender);
+    }
+
+    /**
+     * @dev Accept a swap offered to the caller, exchanging the two members' places in the rotation
+     */
+    function acceptPayoutSwap(address offerer) external onlyActiveMember onlyActiveGroup {
+        require(payoutSwapOffers[offerer] == msg.sender, "No swap offer");
+        _validatePayoutSwap(offerer, msg.sender);
+        payoutSwapOffers[offerer] = address(0);
+
+        uint256 offererIndex = _queueIndexOf(offerer);
+        uint256 acceptorIndex = _queueIndexOf(msg.sender);
+        payoutQueue[offererIndex] = msg.sender;
+        payoutQueue[acceptorIndex] = offerer;
+
+        // Each member now sits in the other's old place
+        emit PayoutSlotSwapped(offerer, msg.sender, acceptorIndex, offererIndex);
+    }
+}
@@ -0,0 +1,452 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ChamaGroupBase.sol";
+
+/**
+ * @title ChamaGroupViews
+ * @dev Read-only views of members, payouts, loans and proposals.
+ * ChamaGroup runs these calls through delegatecall, against its own storage
+ */
+contract ChamaGroupViews is ChamaGroupBase {
+    /**
+     * @dev Whether the creator has been idle long enough for members to vote in a replacement
+     */
+    function isCreatorInactive() external view returns (bool) {
+        return _isCreatorInactive();
+    }
+
+    /**
+     * @dev Get missed periods for a member (view function for debugging)
+     * Periods paid only in part by the deadline are reported as missed
+     */
+    function getMissedPeriods(address user) external view returns (uint256[] memory) {
+        if (!members[user].exists) {
+            return new uint256[](0);
+        }
+        
+        uint256 currenPeriod = _getCurrentPeriod();
+        uint256[] memory missedPeriods = new uint256[](currenPeriod);
+        uint256 missedCount = 0;
+        
+        for (uint256 period = 0; period < currenPeriod; period++) {
+            uint256 periodStart = _getPeriodStart(period);
+            uint256 deadline = periodStart + contributionWindow + gracePeriod;
+            
+            if (block.timestamp > deadline && contributionTimestamps[user][period] == 0) {
+                missedPeriods[missedCount] = period;
+                missedCount++;
+            }
+        }
+        
+        // Resize array to actual missed count
+        uint256[] memory result = new uint256[](missedCount);
+        for (uint256 i = 0; i < missedCount; i++) {
+            result[i] = missedPeriods[i];
+        }
+        
+        return result;
+    }
+
+    /**
+     * @dev Emergency approvals from admins who still hold the role
+     */
+    function getEmergencyApprovalCount() external view returns (uint256 count) {
+        return _getEmergencyApprovalCount();
+    }
+
+    /**
+     * @dev Confirmations a sensitive call needs, capped at the number of admins so a short-handed group isn't locked out
+     */
+    function getRequiredAdminApprovals() external view returns (uint256) {
+        return _getRequiredAdminApprovals();
+    }
+
+    /**
+     * @dev Whether an account holds a role whose term hasn't lapsed
+     */
+    function hasRole(ChamaStructs.Role role, address account) external view returns (bool) {
+        return _hasRole(role, account);
+    }
+
+    /**
+     * @dev Officials currently in a role, with when each term ends
+     */
+    function getRoleHolders(ChamaStructs.Role role) external view returns (
+        address[] memory holders,
+        uint256[] memory expiresAt
+    ) {
+        address[] storage all = roleHolders[role];
+        uint256 count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (_hasRole(role, all[i])) count++;
+        }
+
+        holders = new address[](count);
+        expiresAt = new uint256[](count);
+        uint256 j = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (_hasRole(role, all[i])) {
+                holders[j] = all[i];
+                expiresAt[j] = roleExpiresAt[all[i]][role];
+                j++;
+            }
+        }
+    }
+
+    /**
+     * @dev Roles an account currently holds
+     */
+    function getRolesOf(address account) external view returns (ChamaStructs.Role[] memory roles) {
+        uint256 count = 0;
+        for (uint256 r = uint256(ChamaStructs.Role.Chair); r <= uint256(ChamaStructs.Role.Secretary); r++) {
+            if (_hasRole(ChamaStructs.Role(r), account)) count++;
+        }
+
+        roles = new ChamaStructs.Role[](count);
+        uint256 j = 0;
+        for (uint256 r = uint256(ChamaStructs.Role.Chair); r <= uint256(ChamaStructs.Role.Secretary); r++) {
+            if (_hasRole(ChamaStructs.Role(r), account)) roles[j++] = ChamaStructs.Role(r);
+        }
+    }
+
+    /**
+     * @dev Pending admin operation, keyed by the keccak256 hash of its calldata
+     */
+    function getAdminOperation(bytes32 operationId) external view returns (
+        address proposer,
+        uint256 expiresAt,
+        address[] memory confirmers,
+        uint256 confirmations,
+        uint256 required
+    ) {
+        ChamaStructs.AdminOperation storage op = adminOperations[operationId];
+        if (op.expiresAt < block.timestamp) {
+            return (address(0), 0, new address[](0), 0, _getRequiredAdminApprovals());
+        }
+        return (op.proposer, op.expiresAt, op.confirmers, _countAdminConfirmations(op), _getRequiredAdminApprovals());
+    }
+
+    // VIEW FUNCTIONS
+
+    /**
+     * @dev Get current period
+     */
+    function getCurrentPeriod() external view returns (uint256) {
+        return _getCurrentPeriod();
+    }
+
+    /**
+     * @dev Get start timestamp of a period
+     */
+    function getPeriodStart(uint256 period) external view returns (uint256) {
+        return _getPeriodStart(period);
+    }
+
+    /**
+     * @dev Get length of a period in seconds (varies for monthly groups)
+     */
+    function getPeriodDuration(uint256 period) external view returns (uint256) {
+        return _getPeriodStart(period + 1) - _getPeriodStart(period);
+    }
+
+    /**
+     * @dev Get fine amount in contribution units (fixed or a share of contributionAmount)
+     */
+    function getFineAmount() external view returns (uint256) {
+        return _getFineAmount();
+    }
+
+    /**
+     * @dev Funds available for treasury spends and loans: the reserve only, so contributions
+     * owed to the current or a prepaid future period's payout can't be spent
+     */
+    function getSpendableFunds() external view returns (uint256) {
+        return _getSpendableFunds();
+    }
+
+    /**
+     * @dev Largest loan a member can request
+     */
+    function getMaxLoanAmount(address user) external view returns (uint256) {
+        return _getMaxLoanAmount(user);
+    }
+
+    /**
+     * @dev Principal plus interest still owed on a disbursed loan
+     */
+    function getLoanBalance(uint256 loanId) external view returns (uint256) {
+        return _getLoanBalance(loanId);
+    }
+
+    /**
+     * @dev Cumulative installments due by the end of a period
+     */
+    function getLoanAmountDue(uint256 loanId, uint256 period) external view returns (uint256) {
+        return _getLoanAmountDue(loanId, period);
+    }
+
+    function getLoanDetails(uint256 loanId) external view returns (ChamaStructs.Loan memory) {
+        return loans[loanId];
+    }
+
+    /**
+     * @dev Nominated and accepted guarantors of a member
+     */
+    function getGuarantors(address member) external view returns (address[] memory) {
+        return guarantorsOf[member];
+    }
+
+    /**
+     * @dev Members a guarantor has accepted to guarantee
+     */
+    function getGuaranteedMembers(address guarantor) external view returns (address[] memory) {
+        return guaranteesGiven[guarantor];
+    }
+
+    function getActiveGuarantorCount(address member) external view returns (uint256 count) {
+        return _getActiveGuarantorCount(member);
+    }
+
+    /**
+     * @dev All treasury spends, oldest first
+     */
+    function getSpendLedger() external view returns (ChamaStructs.SpendRecord[] memory) {
+        return spendLedger;
+    }
+
+    /**
+     * @dev Amount still owed for a period, after any installments
+     */
+    function getOutstandingAmount(address user, uint256 period) external view returns (uint256) {
+        return _getOutstandingAmount(user, period);
+    }
+
+    /**
+     * @dev Funds not owed to any period's payout: fines, late fees, loan interest and the like
+     */
+    function getReserve() external view returns (uint256) {
+        return _getReserve();
+    }
+
+    /**
+     * @dev Reconcile a period's payout against its contributions
+     * @return ledger Collected, expected, topped-up and paid-out amounts
+     * @return shortfall Amount by which the funded pot falls short of the full pot
+     */
+    function getPeriodReconciliation(uint256 period)
+        external
+        view
+        returns (ChamaStructs.PeriodLedger memory ledger, uint256 shortfall)
+    {
+        ledger = periodLedger[period];
+        if (payoutHistory[period].recipient == address(0)) {
+            ledger.expected = _expectedPot(period);
+        }
+
+        uint256 funded = ledger.collected + ledger.toppedUp;
+        shortfall = ledger.expected > funded ? ledger.expected - funded : 0;
+    }
+
+    /**
+     * @dev Number of prepaid periods that haven't started yet
+     */
+    function getUnusedPrepaidPeriods(address user) external view returns (uint256 count) {
+        return _getUnusedPrepaidPeriods(user);
+    }
+
+    /**
+     * @dev Late fee charged on top of the contribution for an arrears payment
+     */
+    function getLateFee() external view returns (uint256) {
+        return _getLateFee();
+    }
+
+    /**
+     * @dev Get member contribution timestamp for period
+     */
+    function getMemberContributionTimestamp(address user, uint256 period) external view returns (uint256) {
+        return contributionTimestamps[user][period];
+    }
+
+    /**
+     * @dev Get member payout history
+     */
+    function getMemberPayoutHistory(address user) external view returns (uint256[] memory) {
+        return memberPayoutPeriods[user];
+    }
+
+    /**
+     * @dev Get payout info for period
+     */
+    function getPayoutInfo(uint256 period) external view returns (
+        address recipient,
+        uint256 amount,
+        uint256 timestamp,
+        bool wasSkipped,
+        uint256 grossAmount,
+        uint256 deductions
+    ) {
+        PayoutInfo memory info = payoutHistory[period];
+        return (info.recipient, info.amount, info.timestamp, info.wasSkipped, info.grossAmount, info.deductions);
+    }
+
+    /**
+     * @dev Check if contribution window is open for current period
+     */
+   function isContributionWindowOpen() external view returns (bool) {
+    uint256 nowTs = block.timestamp;
+    
+    uint256 period = _getCurrentPeriod();
+
+    uint256 periodStart = _getPeriodStart(period);
+    uint256 windowEnd = periodStart + contributionWindow + gracePeriod;
+
+    return nowTs >= periodStart && nowTs <= windowEnd;
+}
+
+    /**
+     * @dev Get the rotation order; members from payoutCursor onwards are still due a payout this round
+     */
+    function getPayoutQueue() external view returns (address[] memory) {
+        return payoutQueue;
+    }
+
+    /**
+     * @dev Upcoming payouts for the rest of the round, one per period in queue order up to the end date.
+     * Skips for ineligible members and non-Fixed orderings can still change who is actually paid.
+     */
+    function getUpcomingSchedule() external view returns (uint256[] memory periods, address[] memory recipients) {
+        uint256 length = payoutQueue.length;
+        uint256 first = payoutCursor < length ? payoutCursor : 0;
+
+        uint256 period = _getCurrentPeriod();
+        if (payoutHistory[period].recipient != address(0)) period++;
+        uint256 lastPeriod = ChamaPeriods.periodAt(rules.contributionFrequency, rules.startDate, rules.endDate);
+
+        uint256 count = length - first;
+        if (period > lastPeriod) {
+            count = 0;
+        } else if (lastPeriod - period + 1 < count) {
+            count = lastPeriod - period + 1;
+        }
+
+        periods = new uint256[](count);
+        recipients = new address[](count);
+        for (uint256 i = 0; i < count; i++) {
+            periods[i] = period + i;
+            recipients[i] = payoutQueue[first + i];
+        }
+    }
+
+    /**
+     * @dev Get everyone who has been admitted to the group, including members who have since left
+     */
+    function getMembers() external view returns (address[] memory) {
+        return memberList;
+    }
+
+    /**
+     * @dev Get active member count
+     */
+    function getActiveMemberCount() external view returns (uint256) {
+        return _getActiveMemberCount();
+    }
+
+    /**
+     * @dev Get contract balance (native or token)
+     */
+    function getBalance() external view returns (uint256) {
+        if (isTokenBased) {
+            return contributionToken.balanceOf(address(this));
+        }
+        return address(this).balance;
+    }
+
+    /**
+     * @dev Get member details
+     */
+    function getMemberDetails(address user) external view returns (
+        bool exists,
+        bool active,
+        uint256 joinedAt,
+        uint256 totalContributed,
+        uint256 missedContributions,
+        uint256 consecutiveFines
+    ) {
+        ChamaStructs.Member memory member = members[user];
+        return (
+            member.exists,
+            member.isActive,
+            member.joinedAt,
+            member.totalContributed,
+            member.missedContributions,
+            member.consecutiveFines
+        );
+    }
+
+    /**
+     * @dev Get punishment details
+     */
+    function getPunishmentDetails(address user) external view returns (
+        ChamaStructs.PunishmentAction action,
+        string memory reason,
+        bool active,
+        uint256 issuedAt,
+        uint256 fineAmount,
+        uint256 expiresAt,
+        uint256 dueDate
+    ) {
+        ChamaStructs.Punishment memory punishment = punishments[user];
+        return (
+            punishment.action,
+            punishment.reason,
+            punishment.isActive,
+            punishment.issuedAt,
+            punishment.fineAmount,
+            punishment.expiresAt,
+            punishment.dueDate
+        );
+    }
+
+    /**
+     * @dev Get all punishments issued to a member, oldest first
+     */
+    function getPunishmentHistory(address user) external view returns (ChamaStructs.Punishment[] memory) {
+        return punishmentHistory[user];
+    }
+
+    /**
+     * @dev Get proposal details
+     */
+    function getProposalDetails(uint256 proposalId) external view returns (
+        ChamaStructs.ProposalType proposalType,
+        address target,
+        uint256 value,
+        string memory description,
+        uint256 votesFor,
+        uint256 votesAgainst,
+        uint256 createdAt,
+        bool executed
+    ) {
+        Proposal storage p = proposals[proposalId];
+        return (
+            p.proposalType,
+            p.target,
+            p.value,
+            p.description,
+            p.votesFor,
+            p.votesAgainst,
+            p.createdAt,
+            p.executed
+        );
+    }
+
+    /**
+     * @dev Check if address has voted on proposal
+     * FIXED: Updated to use external mapping
+     */
+    function hasVotedOnProposal(uint256 proposalId, address voter) external view returns (bool) {
+        return proposalVotes[proposalId][voter];
+    }
+}
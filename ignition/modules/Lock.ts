@@ -1,11 +1,28 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 
-const ChamaFactoryModule = buildModule("ChamaFactoryModule", (m) => {
+// Groups are clones of one implementation, so the contracts differ from the ChamaFactoryModule deployment
+// recorded for Fuji; deploying under a new id leaves that record intact
+const ChamaFactoryModule = buildModule("ChamaCloneFactoryModule", (m) => {
   const owner = m.getParameter("owner", "0x5B058198Fc832E592edA2b749bc6e4380f4ED458");
 
-  const chamaFactory = m.contract("ChamaFactory", [owner]);
+  // The modules the ChamaGroup implementation delegates to, in its constructor's order
+  const modules = [
+    m.contract("ChamaGroupMembership"),
+    m.contract("ChamaGroupAdministration"),
+    m.contract("ChamaGroupContributions"),
+    m.contract("ChamaGroupDiscipline"),
+    m.contract("ChamaGroupPayouts"),
+    m.contract("ChamaGroupSlots"),
+    m.contract("ChamaGroupLending"),
+    m.contract("ChamaGroupGovernance"),
+    m.contract("ChamaGroupSettlement"),
+    m.contract("ChamaGroupViews"),
+  ];
+  const groupImplementation = m.contract("ChamaGroup", modules);
 
-  return { chamaFactory };
+  const chamaFactory = m.contract("ChamaFactory", [owner, groupImplementation]);
+
+  return { chamaFactory, groupImplementation };
 });
 
 export default ChamaFactoryModule;
@@ -1,7 +1,16 @@
 import hre from "hardhat";
 import { parseEther, zeroAddress, decodeEventLog, parseAbi } from "viem";
+import deployedAddresses from "../ignition/deployments/chain-43113/deployed_addresses.json";
+
+// The clone factory from ignition/modules/Lock.ts. The ChamaFactoryModule entry is the original factory,
+// whose createGroup takes an older config
+const FACTORY_ADDRESS = (deployedAddresses as Record<string, `0x${string}` | undefined>)[
+  "ChamaCloneFactoryModule#ChamaFactory"
+];
 
 async function main() {
+  if (!FACTORY_ADDRESS) throw new Error("Deploy ignition/modules/Lock.ts to fuji first");
+
   console.log("Getting client and accounts...");
   
   const publicClient = await hre.viem.getPublicClient();
@@ -17,20 +26,46 @@ async function main() {
     maxMembers: 10n,
     startDate: BigInt(now + 3600),
     endDate: BigInt(now + 30 * 24 * 60 * 60),
-    contributionFrequency: "weekly",
+    contributionFrequency: 2, // Weekly
     punishmentMode: 0,
     approvalRequired: true,
     emergencyWithdrawAllowed: false,
     creator: walletClient.account.address,
     contributionToken: zeroAddress,
     gracePeriod: 86400n,
-    contributionWindow: 172800n
+    contributionWindow: 172800n,
+    fineType: 0, // Fixed
+    fineValue: parseEther("0.001"),
+    escalation: {
+      warningThreshold: 1n,
+      fineThreshold: 2n,
+      banThreshold: 4n,
+      decayPeriods: 2n,
+      suspensionPeriods: 2n,
+      fineDuePeriods: 1n
+    },
+    lateFeeBps: 1000n, // 10% surcharge on arrears
+    loans: {
+      maxLoanBps: 20000n, // Up to 2x a member's contributions
+      interestBps: 1000n,
+      repaymentPeriods: 4n
+    },
+    requiredGuarantors: 1n,
+    joinDeposit: parseEther("0.005"),
+    distributeSlashedDeposits: false,
+    payoutOrdering: 0, // Fixed
+    shortfallPolicy: 0, // PayPartial
+    netDebtsFromPayouts: true,
+    emergencyApprovalThreshold: 2n, // Two admins must approve; members can also vote it in
+    adminApprovalThreshold: 2n, // Payouts and punishments need a second admin
+    timelockDelay: BigInt(4 * 24 * 60 * 60), // Admin changes wait 4 days, longer than a cancellation vote
+    creatorInactivityPeriods: 3n // Members can vote in a new creator after 3 idle periods
   };
 
   console.log("Getting contract instance...");
   const factory = await hre.viem.getContractAt(
     "ChamaFactory",
-    "0xca0009AF8E28ccfeAA5bB314fD32856B3d278BF7"
+    FACTORY_ADDRESS
   );
 
   console.log("Creating group...");
@@ -54,7 +89,7 @@ async function main() {
   
   for (const log of receipt.logs) {
     // Check if this log is from our factory contract and matches the GroupCreated signature
-    if (log.address.toLowerCase() === "0xca0009AF8E28ccfeAA5bB314fD32856B3d278BF7".toLowerCase() &&
+    if (log.address.toLowerCase() === FACTORY_ADDRESS.toLowerCase() &&
         log.topics[0] === groupCreatedSignature) {
       
       console.log("Found GroupCreated event!");
@@ -6,16 +6,26 @@ import {
   ONE_WEEK_IN_SECS,
   ONE_MONTH_IN_SECS,
   DEFAULT_CONTRIBUTION,
+  CONTRIBUTION_FREQUENCY,
+  FINE_TYPE,
+  FINE_AMOUNT,
+  NO_ESCALATION,
+  NO_LOANS,
+  PAYOUT_ORDERING,
+  SHORTFALL_POLICY,
 } from "./fixtures/chamaFixtures";
 
 describe("ChamaFactory", function () {
   describe("Deployment", function () {
     it("Should deploy with correct initial state", async function () {
-      const { factory, owner } = await loadFixture(deployFactoryFixture);
+      const { factory, implementation, owner } = await loadFixture(deployFactoryFixture);
 
       expect(await factory.read.owner()).to.equal(
         getAddress(owner.account.address)
       );
+      expect(await factory.read.groupImplementation()).to.equal(
+        getAddress(implementation.address)
+      );
       expect(await factory.read.groupCounter()).to.equal(0n);
     });
 
@@ -41,7 +51,7 @@ describe("ChamaFactory", function () {
         maxMembers: 5n,
         startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
         endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 1, // e.g. PunishmentAction.Fine
         approvalRequired: false,
         emergencyWithdrawAllowed: true,
@@ -49,6 +59,21 @@ describe("ChamaFactory", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
         gracePeriod: 86400n, // 1 day
         contributionWindow: 3600n, // 1 hour
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
       };
 
 
@@ -74,7 +99,7 @@ describe("ChamaFactory", function () {
         maxMembers: 5n,
         startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
         endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 0,
         approvalRequired: false,
         emergencyWithdrawAllowed: false,
@@ -82,6 +107,21 @@ describe("ChamaFactory", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
         gracePeriod: 86400n, // 1 day
         contributionWindow: 3600n, // 1 hour
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
       };
 
       const hash = await factory.write.createGroup([groupConfig], {
@@ -108,7 +148,7 @@ describe("ChamaFactory", function () {
         maxMembers: 5n,
         startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
         endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 0,
         approvalRequired: false,
         emergencyWithdrawAllowed: false,
@@ -116,6 +156,21 @@ describe("ChamaFactory", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
         gracePeriod: 86400n, // 1 day
         contributionWindow: 3600n, // 1 hour
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
       };
 
       await expect(
@@ -133,6 +188,37 @@ describe("ChamaFactory", function () {
       await expect(
         factory.write.createGroup([invalidMembers], { account: user1.account })
       ).to.be.rejectedWith("Invalid max members");
+
+      // A lone admin can't declare an emergency, and a threshold above the member cap can never be met
+      for (const emergencyApprovalThreshold of [1n, 6n]) {
+        await expect(
+          factory.write.createGroup([{ ...invalidMembers, maxMembers: 5n, emergencyApprovalThreshold }], {
+            account: user1.account,
+          })
+        ).to.be.rejectedWith("Invalid emergency approval threshold");
+      }
+
+      for (const adminApprovalThreshold of [0n, 6n]) {
+        await expect(
+          factory.write.createGroup([{ ...invalidMembers, maxMembers: 5n, adminApprovalThreshold }], {
+            account: user1.account,
+          })
+        ).to.be.rejectedWith("Invalid admin approval threshold");
+      }
+
+      for (const timelockDelay of [3600n, 31n * 86400n]) {
+        await expect(
+          factory.write.createGroup([{ ...invalidMembers, maxMembers: 5n, timelockDelay }], { account: user1.account })
+        ).to.be.rejectedWith("Invalid timelock delay");
+      }
+
+      for (const creatorInactivityPeriods of [1n, 13n]) {
+        await expect(
+          factory.write.createGroup([{ ...invalidMembers, maxMembers: 5n, creatorInactivityPeriods }], {
+            account: user1.account,
+          })
+        ).to.be.rejectedWith("Invalid creator inactivity periods");
+      }
     });
 
     it("Should reject start date in the past", async function () {
@@ -146,7 +232,7 @@ describe("ChamaFactory", function () {
         maxMembers: 5n,
         startDate: currentTime - BigInt(ONE_WEEK_IN_SECS),
         endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 0,
         approvalRequired: false,
         emergencyWithdrawAllowed: false,
@@ -154,6 +240,21 @@ describe("ChamaFactory", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
         gracePeriod: 86400n, // 1 day
         contributionWindow: 3600n, // 1 hour
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
       };
 
       await expect(
@@ -174,7 +275,7 @@ describe("ChamaFactory", function () {
         maxMembers: 5n,
         startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
         endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 0,
         approvalRequired: false,
         emergencyWithdrawAllowed: false,
@@ -182,6 +283,21 @@ describe("ChamaFactory", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`,
         gracePeriod: 86400n,
         contributionWindow: 3600n,
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
       };
 
       try {
@@ -206,13 +322,28 @@ describe("ChamaFactory", function () {
           maxMembers: 5n,
           startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
           endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-          contributionFrequency: "weekly",
+          contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
           punishmentMode: 1,
           approvalRequired: false,
           emergencyWithdrawAllowed: true,          creator: user1.account.address as `0x${string}`,
           contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
           gracePeriod: 86400n, // 1 day
           contributionWindow: 3600n, // 1 hour
+          fineType: FINE_TYPE.Fixed,
+          fineValue: FINE_AMOUNT,
+          escalation: NO_ESCALATION,
+          lateFeeBps: 0n,
+          loans: NO_LOANS,
+          requiredGuarantors: 0n,
+          joinDeposit: 0n,
+          distributeSlashedDeposits: false,
+          payoutOrdering: PAYOUT_ORDERING.Fixed,
+          shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+          netDebtsFromPayouts: false,
+          emergencyApprovalThreshold: 2n,
+          adminApprovalThreshold: 1n,
+          timelockDelay: 0n,
+          creatorInactivityPeriods: 0n,
           
         };
 
@@ -229,7 +360,7 @@ describe("ChamaFactory", function () {
           maxMembers: 5n,
           startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
           endDate: currentTime + BigInt(ONE_MONTH_IN_SECS * 3),
-          contributionFrequency: "weekly",
+          contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
           punishmentMode: 1,
           approvalRequired: false,
           emergencyWithdrawAllowed: true,
@@ -237,6 +368,21 @@ describe("ChamaFactory", function () {
           contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
           gracePeriod: 86400n, // 1 day
           contributionWindow: 3600n, // 1 hour
+          fineType: FINE_TYPE.Fixed,
+          fineValue: FINE_AMOUNT,
+          escalation: NO_ESCALATION,
+          lateFeeBps: 0n,
+          loans: NO_LOANS,
+          requiredGuarantors: 0n,
+          joinDeposit: 0n,
+          distributeSlashedDeposits: false,
+          payoutOrdering: PAYOUT_ORDERING.Fixed,
+          shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+          netDebtsFromPayouts: false,
+          emergencyApprovalThreshold: 2n,
+          adminApprovalThreshold: 1n,
+          timelockDelay: 0n,
+          creatorInactivityPeriods: 0n,
         },
       };
 
@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import { encodeFunctionData, getAddress, keccak256 } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+
+// Two of the three admins (user1, user2, user3) must make a sensitive call; user4 is a plain member
+async function deployTwoOfThreeGroupFixture() {
+  const fixture = await deployGroupWithConfig({ adminApprovalThreshold: 2n });
+  const { group, user1, user2, user3, user4, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  for (const member of [user2, user3, user4]) {
+    await group.write.joinGroup({ account: member.account });
+  }
+  await group.write.addAdmin([user2.account.address], { account: user1.account });
+  await group.write.addAdmin([user3.account.address], { account: user1.account });
+
+  const punishCall = encodeFunctionData({
+    abi: group.abi,
+    functionName: "punishMember",
+    args: [user4.account.address, 2, "Late"],
+  });
+  return { ...fixture, punishId: keccak256(punishCall) };
+}
+
+describe("ChamaGroup - Admin Approvals", function () {
+  it("Should only run a sensitive call once enough admins make it", async function () {
+    const { group, user1, user2, user4, punishId, publicClient } = await loadFixture(deployTwoOfThreeGroupFixture);
+
+    expect(await group.read.adminCount()).to.equal(3n);
+    expect(await group.read.getRequiredAdminApprovals()).to.equal(2n);
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user1.account }); // Fine
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.false;
+
+    const [proposer, , confirmers, confirmations, required] = await group.read.getAdminOperation([punishId]);
+    expect(proposer).to.equal(getAddress(user1.account.address));
+    expect(confirmers).to.deep.equal([getAddress(user1.account.address)]);
+    expect(confirmations).to.equal(1n);
+    expect(required).to.equal(2n);
+
+    await expect(
+      group.write.punishMember([user4.account.address, 2, "Late"], { account: user1.account })
+    ).to.be.rejectedWith("Already confirmed");
+    await expect(
+      group.write.punishMember([user4.account.address, 2, "Late"], { account: user4.account })
+    ).to.be.rejectedWith("Not admin");
+
+    const hash = await group.write.punishMember([user4.account.address, 2, "Late"], { account: user2.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const confirmed = await group.getEvents.AdminOperationConfirmed();
+    expect((confirmed[0].args as any).confirmations).to.equal(2n);
+    expect((confirmed[0].args as any).required).to.equal(2n);
+    const executed = await group.getEvents.AdminOperationExecuted();
+    expect((executed[0].args as any).operationId).to.equal(punishId);
+
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.true;
+    expect((await group.read.getAdminOperation([punishId]))[1]).to.equal(0n);
+  });
+
+  it("Should treat different arguments as a different operation", async function () {
+    const { group, user1, user2, user4 } = await loadFixture(deployTwoOfThreeGroupFixture);
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user1.account });
+    await group.write.punishMember([user4.account.address, 3, "Late"], { account: user2.account });
+
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.false;
+  });
+
+  it("Should start over once a pending operation expires", async function () {
+    const { group, user1, user2, user4, punishId } = await loadFixture(deployTwoOfThreeGroupFixture);
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user1.account });
+    await time.increase(3n * DAY + 1n);
+
+    expect((await group.read.getAdminOperation([punishId]))[3]).to.equal(0n);
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user2.account });
+
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.false;
+    expect((await group.read.getAdminOperation([punishId]))[0]).to.equal(getAddress(user2.account.address));
+  });
+
+  it("Should let an admin revoke their confirmation", async function () {
+    const { group, user1, user2, user3, user4, punishId } = await loadFixture(deployTwoOfThreeGroupFixture);
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user1.account });
+    await expect(
+      group.write.revokeAdminConfirmation([punishId], { account: user2.account })
+    ).to.be.rejectedWith("Not confirmed");
+
+    await group.write.revokeAdminConfirmation([punishId], { account: user1.account });
+    const revoked = await group.getEvents.AdminOperationRevoked();
+    expect((revoked[0].args as any).confirmations).to.equal(0n);
+    await expect(
+      group.write.revokeAdminConfirmation([punishId], { account: user1.account })
+    ).to.be.rejectedWith("No pending operation");
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user2.account });
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.false;
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user3.account });
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.true;
+  });
+
+  it("Should not count confirmations from removed admins", async function () {
+    const { group, user1, user2, user3, user4, punishId } = await loadFixture(deployTwoOfThreeGroupFixture);
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user2.account });
+    await group.write.removeAdmin([user2.account.address], { account: user1.account });
+    expect((await group.read.getAdminOperation([punishId]))[3]).to.equal(0n);
+
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user3.account });
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.false;
+  });
+
+  it("Should cap the threshold at the number of admins", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployTwoOfThreeGroupFixture);
+
+    await group.write.removeAdmin([user2.account.address], { account: user1.account });
+    await group.write.removeAdmin([user3.account.address], { account: user1.account });
+    expect(await group.read.getRequiredAdminApprovals()).to.equal(1n);
+
+    await group.write.pause({ account: user1.account });
+    expect(await group.read.paused()).to.be.true;
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployFactoryFixture,
+  deployGroupWithConfig,
+  buildGroupConfig,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// 10% late fee, three members in rotation order user1, user2, user3
+async function deployArrearsGroupFixture() {
+  const fixture = await deployGroupWithConfig({ lateFeeBps: 1000n });
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  const lateFee = (fixture.groupConfig.contributionAmount * 1000n) / 10000n;
+  return { ...fixture, lateFee };
+}
+
+describe("ChamaGroup - Arrears Payments", function () {
+  it("Should settle a missed period with the late fee", async function () {
+    const { group, user2, startDate, groupConfig, lateFee } = await loadFixture(deployArrearsGroupFixture);
+    const amountDue = groupConfig.contributionAmount + lateFee;
+
+    expect(await group.read.getLateFee()).to.equal(lateFee);
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.payArrears([0n], { account: user2.account, value: amountDue });
+
+    expect(await group.read.getMemberContributionTimestamp([user2.account.address, 0n]) > 0n).to.be.true;
+    expect(await group.read.getMissedPeriods([user2.account.address])).to.have.lengthOf(0);
+    expect(await group.read.totalFunds()).to.equal(amountDue);
+
+    const events = await group.getEvents.ArrearsPaid();
+    const eventArgs = events[0].args as any;
+    expect(eventArgs.user).to.equal(getAddress(user2.account.address));
+    expect(eventArgs.period).to.equal(0n);
+    expect(eventArgs.amount).to.equal(amountDue);
+    expect(eventArgs.lateFee).to.equal(lateFee);
+  });
+
+  it("Should reduce missed contributions already counted", async function () {
+    const { group, user2, startDate, groupConfig, lateFee } = await loadFixture(deployArrearsGroupFixture);
+
+    // Miss period 0; contributing in period 1 records the miss
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+    let member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[4]).to.equal(1n);
+
+    await group.write.payArrears([0n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount + lateFee,
+    });
+
+    member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[3]).to.equal(groupConfig.contributionAmount * 2n); // totalContributed
+    expect(member[4]).to.equal(0n);
+  });
+
+  it("Should not count a period settled before it was checked", async function () {
+    const { group, user1, user2, startDate, groupConfig, lateFee } = await loadFixture(deployArrearsGroupFixture);
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.payArrears([0n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount + lateFee,
+    });
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[4]).to.equal(0n);
+  });
+
+  it("Should reject invalid arrears payments", async function () {
+    const { group, user2, startDate, groupConfig, lateFee } = await loadFixture(deployArrearsGroupFixture);
+    const amountDue = groupConfig.contributionAmount + lateFee;
+
+    await time.increaseTo(startDate + DAY);
+    await expect(
+      group.write.payArrears([0n], { account: user2.account, value: amountDue })
+    ).to.be.rejectedWith("Contribution window still open");
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await expect(
+      group.write.payArrears([0n], { account: user2.account, value: groupConfig.contributionAmount })
+    ).to.be.rejectedWith("Incorrect arrears amount");
+
+    await group.write.payArrears([0n], { account: user2.account, value: amountDue });
+    await expect(
+      group.write.payArrears([0n], { account: user2.account, value: amountDue })
+    ).to.be.rejectedWith("Period already paid");
+  });
+
+  it("Should let the held-up payout proceed once arrears are settled", async function () {
+    const { group, user1, user2, user3, startDate, groupConfig, lateFee } = await loadFixture(deployArrearsGroupFixture);
+
+    await time.increaseTo(startDate + DAY);
+    await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await expect(
+      group.write.processPastRotationPayout([0n], { account: user1.account })
+    ).to.be.rejectedWith("Member has not contributed yet");
+
+    await group.write.payArrears([0n], {
+      account: user3.account,
+      value: groupConfig.contributionAmount + lateFee,
+    });
+    await group.write.processPastRotationPayout([0n], { account: user1.account });
+
+    const payout = await group.read.getPayoutInfo([0n]);
+    expect(payout[0]).to.equal(getAddress(user1.account.address));
+    expect(payout[1]).to.equal(groupConfig.contributionAmount * 3n);
+    expect(await group.read.totalFunds()).to.equal(lateFee);
+  });
+
+  it("Should only process past periods through the arrears payout path", async function () {
+    const { group, user1 } = await loadFixture(deployArrearsGroupFixture);
+
+    await expect(
+      group.write.processPastRotationPayout([0n], { account: user1.account })
+    ).to.be.rejectedWith("Period not in the past");
+  });
+
+  it("Should reject late fees above 100%", async function () {
+    const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+    const currentTime = BigInt(await time.latest());
+    const config = buildGroupConfig({
+      creator: user1.account.address as `0x${string}`,
+      startDate: currentTime + WEEK,
+      endDate: currentTime + 20n * WEEK,
+      overrides: { lateFeeBps: 10001n },
+    });
+
+    await expect(
+      factory.write.createGroup([config as any], { account: user1.account })
+    ).to.be.rejectedWith("Invalid late fee");
+  });
+});
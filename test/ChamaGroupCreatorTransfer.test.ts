@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, ONE_WEEK_IN_SECS, PROPOSAL_TYPE } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// user2 and user3 are members; members may replace a creator idle for two periods
+async function deployTransferGroupFixture() {
+  const fixture = await deployGroupWithConfig({ creatorInactivityPeriods: 2n });
+  const { group, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  return fixture;
+}
+
+describe("ChamaGroup - Creator Transfer", function () {
+  it("Should hand over only once the nominee accepts", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployTransferGroupFixture);
+
+    await group.write.transferCreator([user2.account.address, true], { account: user1.account });
+    expect(await group.read.creator()).to.equal(getAddress(user1.account.address));
+    expect(await group.read.pendingCreator()).to.equal(getAddress(user2.account.address));
+
+    await expect(
+      group.write.acceptCreatorTransfer({ account: user3.account })
+    ).to.be.rejectedWith("Not pending creator");
+    await group.write.acceptCreatorTransfer({ account: user2.account });
+
+    expect(await group.read.creator()).to.equal(getAddress(user2.account.address));
+    expect(await group.read.admins([user2.account.address])).to.be.true;
+    expect(await group.read.admins([user1.account.address])).to.be.false;
+    expect(await group.read.adminCount()).to.equal(1n);
+    expect(await group.read.pendingCreator()).to.equal("0x0000000000000000000000000000000000000000");
+  });
+
+  it("Should keep the old creator as admin unless asked to revoke", async function () {
+    const { group, user1, user2 } = await loadFixture(deployTransferGroupFixture);
+
+    await group.write.transferCreator([user2.account.address, false], { account: user1.account });
+    await group.write.acceptCreatorTransfer({ account: user2.account });
+
+    expect(await group.read.admins([user1.account.address])).to.be.true;
+    expect(await group.read.adminCount()).to.equal(2n);
+  });
+
+  it("Should only offer the role to active members", async function () {
+    const { group, user1, user4 } = await loadFixture(deployTransferGroupFixture);
+
+    await expect(
+      group.write.transferCreator([user4.account.address, false], { account: user1.account })
+    ).to.be.rejectedWith("New creator must be an active member");
+  });
+
+  it("Should expire an offer that isn't accepted in time", async function () {
+    const { group, user1, user2 } = await loadFixture(deployTransferGroupFixture);
+
+    await group.write.transferCreator([user2.account.address, false], { account: user1.account });
+    await time.increase(7n * DAY + 1n);
+
+    await expect(
+      group.write.acceptCreatorTransfer({ account: user2.account })
+    ).to.be.rejectedWith("Transfer expired");
+  });
+
+  it("Should let the creator cancel an offer", async function () {
+    const { group, user1, user2 } = await loadFixture(deployTransferGroupFixture);
+
+    await group.write.transferCreator([user2.account.address, false], { account: user1.account });
+    await group.write.cancelCreatorTransfer({ account: user1.account });
+
+    await expect(
+      group.write.acceptCreatorTransfer({ account: user2.account })
+    ).to.be.rejectedWith("Not pending creator");
+    await expect(
+      group.write.cancelCreatorTransfer({ account: user1.account })
+    ).to.be.rejectedWith("No pending transfer");
+  });
+
+  describe("Dead-man switch", function () {
+    it("Should refuse a replacement vote while the creator is active", async function () {
+      const { group, user1, user2, user3, startDate } = await loadFixture(deployTransferGroupFixture);
+
+      await expect(
+        group.write.createProposal(
+          [PROPOSAL_TYPE.ReplaceCreator, user2.account.address, 0n, "Creator gone"],
+          { account: user3.account }
+        )
+      ).to.be.rejectedWith("Creator is active");
+
+      await time.increaseTo(startDate + WEEK + DAY);
+      await group.write.checkIn({ account: user1.account });
+      await time.increaseTo(startDate + 2n * WEEK + DAY);
+      expect(await group.read.isCreatorInactive()).to.be.false;
+    });
+
+    it("Should let members vote in a new creator after the creator goes idle", async function () {
+      const { group, user1, user2, user3, startDate } = await loadFixture(deployTransferGroupFixture);
+
+      await time.increaseTo(startDate + 2n * WEEK);
+      expect(await group.read.isCreatorInactive()).to.be.true;
+
+      await group.write.createProposal(
+        [PROPOSAL_TYPE.ReplaceCreator, user2.account.address, 0n, "Creator gone"],
+        { account: user3.account }
+      );
+      const proposalId = await group.read.proposalCounter();
+      for (const voter of [user2, user3]) {
+        await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+      }
+      await time.increase(3n * DAY + 1n);
+
+      // Non-admin members can carry out the replacement
+      await group.write.executeProposal([proposalId], { account: user3.account });
+      await group.write.acceptCreatorTransfer({ account: user2.account });
+
+      expect(await group.read.creator()).to.equal(getAddress(user2.account.address));
+      expect(await group.read.admins([user1.account.address])).to.be.false;
+    });
+  });
+});
@@ -6,7 +6,7 @@ import { deployGroupFixture } from "./fixtures/chamaFixtures";
 type GroupRules = {
   name: string;
   contributionAmount: bigint;
-  contributionFrequency: string;
+  contributionFrequency: number;
   maxMembers: bigint;
   startDate: bigint;
   endDate: bigint;
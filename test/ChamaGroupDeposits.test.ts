@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { getAddress, parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig } from "./fixtures/chamaFixtures";
+
+const DEPOSIT = parseEther("0.05");
+
+async function joinWithDeposits(fixture: Awaited<ReturnType<typeof deployGroupWithConfig>>) {
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account, value: DEPOSIT });
+  await group.write.joinGroup({ account: user3.account, value: DEPOSIT });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+async function deployDepositGroupFixture() {
+  return joinWithDeposits(await deployGroupWithConfig({ joinDeposit: DEPOSIT }));
+}
+
+async function deploySharedSlashGroupFixture() {
+  return joinWithDeposits(
+    await deployGroupWithConfig({ joinDeposit: DEPOSIT, distributeSlashedDeposits: true })
+  );
+}
+
+async function deployApprovalDepositGroupFixture() {
+  const fixture = await deployGroupWithConfig({ joinDeposit: DEPOSIT, approvalRequired: true });
+  await time.increaseTo(fixture.startDate);
+  return fixture;
+}
+
+describe("ChamaGroup - Join Deposits", function () {
+  it("Should escrow the deposit outside totalFunds", async function () {
+    const { group, user2, user4 } = await loadFixture(deployDepositGroupFixture);
+
+    expect(await group.read.deposits([user2.account.address])).to.equal(DEPOSIT);
+    expect(await group.read.totalDeposits()).to.equal(DEPOSIT * 2n);
+    expect(await group.read.totalFunds()).to.equal(0n);
+
+    await expect(
+      group.write.joinGroup({ account: user4.account })
+    ).to.be.rejectedWith("Incorrect deposit amount");
+  });
+
+  it("Should return the deposit with the refund on a clean exit", async function () {
+    const { group, user2, groupConfig, publicClient } = await loadFixture(deployDepositGroupFixture);
+
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    const hash = await group.write.leaveGroup({ account: user2.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const left = await group.getEvents.MemberLeft();
+    expect((left[0].args as any).refundAmount).to.equal(groupConfig.contributionAmount);
+
+    const returned = await group.getEvents.DepositReturned();
+    expect((returned[0].args as any).user).to.equal(getAddress(user2.account.address));
+    expect((returned[0].args as any).amount).to.equal(DEPOSIT);
+
+    expect(await group.read.deposits([user2.account.address])).to.equal(0n);
+    expect(await group.read.totalDeposits()).to.equal(DEPOSIT);
+    expect(await group.read.totalFunds()).to.equal(0n);
+  });
+
+  it("Should slash a banned member's deposit into the pot", async function () {
+    const { group, user1, user2 } = await loadFixture(deployDepositGroupFixture);
+
+    await group.write.punishMember([user2.account.address, 3, "Fraud"], { account: user1.account }); // Ban
+
+    expect(await group.read.deposits([user2.account.address])).to.equal(0n);
+    expect(await group.read.totalDeposits()).to.equal(DEPOSIT);
+    expect(await group.read.totalFunds()).to.equal(DEPOSIT);
+
+    const events = await group.getEvents.DepositSlashed();
+    expect((events[0].args as any).amount).to.equal(DEPOSIT);
+    expect((events[0].args as any).distributed).to.equal(0n);
+  });
+
+  it("Should leave a suspended member's deposit in escrow", async function () {
+    const { group, user1, user2 } = await loadFixture(deployDepositGroupFixture);
+
+    await group.write.suspendMember([user2.account.address, 2n, "Misconduct"], { account: user1.account });
+
+    expect(await group.read.deposits([user2.account.address])).to.equal(DEPOSIT);
+    expect(await group.read.totalDeposits()).to.equal(DEPOSIT * 2n);
+    expect(await group.read.totalFunds()).to.equal(0n);
+  });
+
+  it("Should share a slashed deposit among compliant members when configured", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deploySharedSlashGroupFixture);
+
+    await group.write.punishMember([user3.account.address, 3, "Fraud"], { account: user1.account }); // Ban
+
+    expect(await group.read.deposits([user1.account.address])).to.equal(DEPOSIT / 2n);
+    expect(await group.read.deposits([user2.account.address])).to.equal(DEPOSIT + DEPOSIT / 2n);
+    expect(await group.read.totalDeposits()).to.equal(DEPOSIT * 2n);
+    expect(await group.read.totalFunds()).to.equal(0n);
+  });
+
+  it("Should let members reclaim deposits after the end date", async function () {
+    const { group, user2, groupConfig, publicClient } = await loadFixture(deployDepositGroupFixture);
+
+    await expect(
+      group.write.claimDeposit({ account: user2.account })
+    ).to.be.rejectedWith("Group has not ended");
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    const hash = await group.write.claimDeposit({ account: user2.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    expect(await group.read.deposits([user2.account.address])).to.equal(0n);
+    await expect(
+      group.write.claimDeposit({ account: user2.account })
+    ).to.be.rejectedWith("No deposit");
+  });
+
+  it("Should refund the deposit when a join request is cancelled", async function () {
+    const { group, user2 } = await loadFixture(deployApprovalDepositGroupFixture);
+
+    await group.write.joinGroup({ account: user2.account, value: DEPOSIT });
+    expect(await group.read.deposits([user2.account.address])).to.equal(DEPOSIT);
+
+    await group.write.cancelJoinRequest({ account: user2.account });
+
+    expect(await group.read.joinRequests([user2.account.address])).to.be.false;
+    expect(await group.read.deposits([user2.account.address])).to.equal(0n);
+    expect(await group.read.totalDeposits()).to.equal(0n);
+  });
+
+  it("Should leave deposits in escrow on emergency withdraw", async function () {
+    const { group, user1, user2, groupConfig } = await loadFixture(deployDepositGroupFixture);
+
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user2.account });
+
+    expect(await group.read.totalDeposits()).to.equal(DEPOSIT * 2n);
+    expect(await group.read.pendingWithdrawals([user2.account.address])).to.equal(groupConfig.contributionAmount);
+
+    // Deposits can be reclaimed straight away once the group is in emergency mode
+    await group.write.claimDeposit({ account: user2.account });
+    expect(await group.read.deposits([user2.account.address])).to.equal(0n);
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, PROPOSAL_TYPE } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+
+// user1 and user2 contribute one period and user3 prepays two, so net positions are 1:1:2
+async function fundGroup(fixture: Awaited<ReturnType<typeof deployGroupWithConfig>>) {
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+
+  await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+  await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+  await group.write.prepayContributions([2n], { account: user3.account, value: groupConfig.contributionAmount * 2n });
+  return fixture;
+}
+
+// Two of the two admins (user1, user2) must approve
+async function deployTwoAdminGroupFixture() {
+  const fixture = await fundGroup(await deployGroupWithConfig({ emergencyApprovalThreshold: 2n }));
+  await fixture.group.write.addAdmin([fixture.user2.account.address], { account: fixture.user1.account });
+  return fixture;
+}
+
+async function deployVoteOnlyGroupFixture() {
+  return fundGroup(await deployGroupWithConfig({ emergencyApprovalThreshold: 0n }));
+}
+
+async function deployNoEmergencyGroupFixture() {
+  return fundGroup(await deployGroupWithConfig({ emergencyWithdrawAllowed: false }));
+}
+
+describe("ChamaGroup - Emergency Mode", function () {
+  it("Should only activate once enough admins approve", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployTwoAdminGroupFixture);
+    const balance = await group.read.getBalance();
+
+    await group.write.approveEmergencyWithdraw({ account: user1.account });
+    expect(await group.read.getEmergencyApprovalCount()).to.equal(1n);
+    expect(await group.read.emergencyMode()).to.be.false;
+    expect(await group.read.getBalance()).to.equal(balance);
+
+    await expect(
+      group.write.approveEmergencyWithdraw({ account: user1.account })
+    ).to.be.rejectedWith("Already approved");
+    await expect(
+      group.write.approveEmergencyWithdraw({ account: user3.account })
+    ).to.be.rejectedWith("Not admin");
+
+    await group.write.approveEmergencyWithdraw({ account: user2.account });
+    expect(await group.read.emergencyMode()).to.be.true;
+    expect(await group.read.isActive()).to.be.false;
+  });
+
+  it("Should credit every member their pro-rata share and nothing more to admins", async function () {
+    const { group, user1, user2, user3, groupConfig, publicClient } = await loadFixture(deployTwoAdminGroupFixture);
+    const pool = groupConfig.contributionAmount * 4n;
+
+    await group.write.approveEmergencyWithdraw({ account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user2.account });
+
+    // Nothing leaves the contract when emergency mode activates
+    expect(await group.read.getBalance()).to.equal(pool);
+    expect(await group.read.totalFunds()).to.equal(0n);
+    expect(await group.read.totalPendingWithdrawals()).to.equal(pool);
+
+    expect(await group.read.pendingWithdrawals([user1.account.address])).to.equal(pool / 4n);
+    expect(await group.read.pendingWithdrawals([user2.account.address])).to.equal(pool / 4n);
+    expect(await group.read.pendingWithdrawals([user3.account.address])).to.equal(pool / 2n);
+
+    const hash = await group.write.withdraw({ account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    const events = await group.getEvents.Withdrawal();
+    expect((events[0].args as any).amount).to.equal(pool / 4n);
+
+    await expect(group.write.withdraw({ account: user1.account })).to.be.rejectedWith("Nothing to withdraw");
+    expect(await group.read.getBalance()).to.equal(pool - pool / 4n);
+  });
+
+  it("Should not count approvals from admins who have since been removed", async function () {
+    const { group, user1, user2 } = await loadFixture(deployTwoAdminGroupFixture);
+
+    await group.write.approveEmergencyWithdraw({ account: user2.account });
+    await group.write.removeAdmin([user2.account.address], { account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user1.account });
+
+    expect(await group.read.getEmergencyApprovalCount()).to.equal(1n);
+    expect(await group.read.emergencyMode()).to.be.false;
+  });
+
+  it("Should activate through a member vote", async function () {
+    const { group, user1, user2, user3, groupConfig } = await loadFixture(deployVoteOnlyGroupFixture);
+
+    await expect(
+      group.write.approveEmergencyWithdraw({ account: user1.account })
+    ).to.be.rejectedWith("Admin approval disabled");
+
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.EmergencyWithdraw, "0x0000000000000000000000000000000000000000", 0n, "Dissolve"],
+      { account: user3.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user2, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+    await time.increase(3n * DAY + 1n);
+    await group.write.executeProposal([proposalId], { account: user1.account });
+
+    expect(await group.read.emergencyMode()).to.be.true;
+    expect(await group.read.pendingWithdrawals([user3.account.address])).to.equal(groupConfig.contributionAmount * 2n);
+  });
+
+  it("Should refuse both routes when the group disallows emergency withdraws", async function () {
+    const { group, user1 } = await loadFixture(deployNoEmergencyGroupFixture);
+
+    await expect(
+      group.write.approveEmergencyWithdraw({ account: user1.account })
+    ).to.be.rejectedWith("Emergency withdraw not allowed");
+    await expect(
+      group.write.createProposal(
+        [PROPOSAL_TYPE.EmergencyWithdraw, "0x0000000000000000000000000000000000000000", 0n, "Dissolve"],
+        { account: user1.account }
+      )
+    ).to.be.rejectedWith("Emergency withdraw not allowed");
+  });
+});
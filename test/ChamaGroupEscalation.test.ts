@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployFactoryFixture,
+  deployGroupWithConfig,
+  buildGroupConfig,
+  FINE_AMOUNT,
+  NO_ESCALATION,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// 1 miss = Warning, 2 = Fine, 4 = Ban; one miss forgiven per 2 clean periods
+async function deployEscalationGroupFixture() {
+  const fixture = await deployGroupWithConfig({
+    escalation: {
+      ...NO_ESCALATION,
+      warningThreshold: 1n,
+      fineThreshold: 2n,
+      banThreshold: 4n,
+      decayPeriods: 2n,
+    },
+  });
+  await time.increaseTo(fixture.startDate);
+  await fixture.group.write.joinGroup({ account: fixture.user2.account });
+  return fixture;
+}
+
+describe("ChamaGroup - Punishment Escalation", function () {
+  it("Should record a warning on the first miss", async function () {
+    const { group, user1, user2, startDate, groupConfig } = await loadFixture(deployEscalationGroupFixture);
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    const history = await group.read.getPunishmentHistory([user2.account.address]);
+    expect(history).to.have.lengthOf(1);
+    expect(history[0].action).to.equal(1); // Warning
+    expect(history[0].isActive).to.be.true;
+
+    // A warning alone doesn't stop the member contributing
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[1]).to.be.true;
+    expect(member[4]).to.equal(1n);
+  });
+
+  it("Should fine from the fine threshold and accumulate unpaid fines", async function () {
+    const { group, user1, user2, startDate } = await loadFixture(deployEscalationGroupFixture);
+
+    // Miss periods 0, 1 and 2
+    await time.increaseTo(startDate + 3n * WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    const history = await group.read.getPunishmentHistory([user2.account.address]);
+    expect(history.map((p) => p.action)).to.deep.equal([1, 2, 2]); // Warning, Fine, Fine
+
+    const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+    expect(punishment[0]).to.equal(2); // Fine
+    expect(punishment[4]).to.equal(FINE_AMOUNT * 2n);
+
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[1]).to.be.true; // still active
+  });
+
+  it("Should ban at the ban threshold", async function () {
+    const { group, user1, user2, startDate } = await loadFixture(deployEscalationGroupFixture);
+
+    await time.increaseTo(startDate + 4n * WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+    expect(punishment[0]).to.equal(3); // Ban
+
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[1]).to.be.false;
+    expect(member[4]).to.equal(4n);
+    expect(await group.read.getActiveMemberCount()).to.equal(1n);
+  });
+
+  it("Should forgive a miss and lapse the warning after clean periods", async function () {
+    const { group, user1, user2, startDate, groupConfig } = await loadFixture(deployEscalationGroupFixture);
+
+    // Miss period 0, then pay periods 1 and 2 on time
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    await time.increaseTo(startDate + 2n * WEEK + DAY);
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+    let member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[4]).to.equal(1n);
+
+    await time.increaseTo(startDate + 3n * WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[4]).to.equal(0n);
+
+    const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+    expect(punishment[0]).to.equal(1); // Warning
+    expect(punishment[2]).to.be.false; // lapsed
+
+    const events = await group.getEvents.MissedContributionForgiven();
+    expect(events).to.have.lengthOf(1);
+  });
+
+  it("Should not let a warning replace an unpaid fine", async function () {
+    const { group, user1, user2, startDate, groupConfig } = await loadFixture(deployEscalationGroupFixture);
+
+    // Miss periods 0 and 1 for a fine, then settle period 0 so the next miss only reaches the warning threshold
+    await time.increaseTo(startDate + 2n * WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+    await group.write.payArrears([0n], { account: user2.account, value: groupConfig.contributionAmount });
+    await group.write.payArrears([1n], { account: user2.account, value: groupConfig.contributionAmount });
+
+    await time.increaseTo(startDate + 3n * WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+    expect(punishment[0]).to.equal(2); // Fine
+    expect(punishment[2]).to.be.true;
+    expect(punishment[4]).to.equal(FINE_AMOUNT);
+
+    await expect(
+      group.write.punishMember([user2.account.address, 1, "Late"], { account: user1.account })
+    ).to.be.rejectedWith("Member has a heavier punishment");
+  });
+
+  it("Should reject thresholds that do not escalate", async function () {
+    const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+    const currentTime = BigInt(await time.latest());
+    const config = buildGroupConfig({
+      creator: user1.account.address as `0x${string}`,
+      startDate: currentTime + WEEK,
+      endDate: currentTime + 20n * WEEK,
+      overrides: {
+        escalation: { ...NO_ESCALATION, warningThreshold: 2n, fineThreshold: 2n, banThreshold: 4n },
+      },
+    });
+
+    await expect(
+      factory.write.createGroup([config as any], { account: user1.account })
+    ).to.be.rejectedWith("Invalid escalation thresholds");
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { getAddress, parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployFactoryFixture,
+  deployGroupFixture,
+  deployGroupWithConfig,
+  deployTokenGroupFixture,
+  buildGroupConfig,
+  FINE_AMOUNT,
+  FINE_TYPE,
+  TOKEN_CONTRIBUTION,
+  TOKEN_FINE_AMOUNT,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+async function deployPercentageFineGroupFixture() {
+  return deployGroupWithConfig({
+    fineType: FINE_TYPE.Percentage,
+    fineValue: 500n, // 5% of contributionAmount
+  });
+}
+
+describe("ChamaGroup - Fine Configuration", function () {
+  describe("Native groups", function () {
+    it("Should use the configured fixed fine", async function () {
+      const { group } = await loadFixture(deployGroupFixture);
+
+      expect(await group.read.fineType()).to.equal(FINE_TYPE.Fixed);
+      expect(await group.read.getFineAmount()).to.equal(FINE_AMOUNT);
+    });
+
+    it("Should compute percentage fines from the contribution amount", async function () {
+      const { group, user1, groupConfig, startDate } = await loadFixture(deployPercentageFineGroupFixture);
+      const expectedFine = (groupConfig.contributionAmount * 500n) / 10000n;
+
+      expect(await group.read.getFineAmount()).to.equal(expectedFine);
+
+      await time.increaseTo(startDate);
+      await group.write.punishMember([user1.account.address, 2, "Late"], { account: user1.account }); // Fine
+
+      const punishment = await group.read.getPunishmentDetails([user1.account.address]);
+      expect(punishment[4]).to.equal(expectedFine);
+
+      await expect(
+        group.write.payFine({ account: user1.account, value: FINE_AMOUNT })
+      ).to.be.rejectedWith("Incorrect fine amount");
+
+      await group.write.payFine({ account: user1.account, value: expectedFine });
+      expect(await group.read.totalFunds()).to.equal(expectedFine);
+    });
+
+    it("Should deduct configured fines from refunds", async function () {
+      const { group, user2, groupConfig, startDate, publicClient } = await loadFixture(deployPercentageFineGroupFixture);
+      const DAY = 24n * 60n * 60n;
+      const fine = await group.read.getFineAmount();
+
+      await time.increaseTo(startDate);
+      await group.write.joinGroup({ account: user2.account });
+      await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+      // Miss period 1, contribute in period 2
+      await time.increaseTo(startDate + 14n * DAY + DAY);
+      await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+      const hash = await group.write.leaveGroup({ account: user2.account });
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const events = await group.getEvents.MemberLeft();
+      const eventArgs = events[0].args as any;
+      expect(eventArgs.user).to.equal(getAddress(user2.account.address));
+      expect(eventArgs.refundAmount).to.equal(groupConfig.contributionAmount * 2n - fine);
+    });
+  });
+
+  describe("Token groups", function () {
+    it("Should denominate fines in token units", async function () {
+      const { group } = await loadFixture(deployTokenGroupFixture);
+
+      expect(await group.read.isTokenBased()).to.be.true;
+      expect(await group.read.getFineAmount()).to.equal(TOKEN_FINE_AMOUNT);
+    });
+
+    it("Should collect token fines", async function () {
+      const { group, token, user1, user2 } = await loadFixture(deployTokenGroupFixture);
+
+      await group.write.contribute({ account: user2.account });
+      await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+
+      const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+      expect(punishment[4]).to.equal(TOKEN_FINE_AMOUNT);
+
+      await expect(
+        group.write.payFine({ account: user2.account, value: 1n })
+      ).to.be.rejectedWith("Don't send ETH for token fines");
+
+      await group.write.payFine({ account: user2.account });
+
+      expect(await token.read.balanceOf([group.address])).to.equal(TOKEN_CONTRIBUTION + TOKEN_FINE_AMOUNT);
+      expect(await group.read.totalFunds()).to.equal(TOKEN_CONTRIBUTION + TOKEN_FINE_AMOUNT);
+    });
+  });
+
+  describe("Factory validation", function () {
+    async function expectRejected(overrides: Record<string, unknown>, message: string) {
+      const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+      const currentTime = BigInt(await time.latest());
+      const config = buildGroupConfig({
+        creator: user1.account.address as `0x${string}`,
+        startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
+        endDate: currentTime + 20n * BigInt(ONE_WEEK_IN_SECS),
+        overrides,
+      });
+
+      await expect(
+        factory.write.createGroup([config as any], { account: user1.account })
+      ).to.be.rejectedWith(message);
+    }
+
+    it("Should reject zero or oversized fixed fines", async function () {
+      await expectRejected({ fineValue: 0n }, "Invalid fine amount");
+      await expectRejected({ fineValue: parseEther("1") }, "Invalid fine amount");
+    });
+
+    it("Should reject fine percentages above 100%", async function () {
+      await expectRejected({ fineType: FINE_TYPE.Percentage, fineValue: 10001n }, "Invalid fine percentage");
+    });
+  });
+});
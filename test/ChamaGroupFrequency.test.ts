@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployFactoryFixture,
+  deployGroupWithConfig,
+  buildGroupConfig,
+  CONTRIBUTION_FREQUENCY,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+
+// Next 31st of a month followed by a shorter month, so clamping is exercised
+function nextMonthEndStart(now: bigint): bigint {
+  const date = new Date(Number(now + 2n * DAY) * 1000);
+  for (let i = 0; i < 12; i++) {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + i;
+    const candidate = Date.UTC(year, month, 31);
+    if (new Date(candidate).getUTCDate() === 31 && new Date(Date.UTC(year, month + 1, 31)).getUTCDate() !== 31) {
+      if (BigInt(candidate / 1000) > now + DAY) return BigInt(candidate / 1000);
+    }
+  }
+  throw new Error("No month-end start found");
+}
+
+function addMonthsUTC(timestamp: bigint, months: number): bigint {
+  const start = new Date(Number(timestamp) * 1000);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const daysInTarget = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), daysInTarget));
+  return BigInt(target.getTime() / 1000) + (timestamp % DAY);
+}
+
+async function deployDailyGroupFixture() {
+  return deployGroupWithConfig({
+    contributionFrequency: CONTRIBUTION_FREQUENCY.Daily,
+    contributionWindow: 12n * 60n * 60n,
+    gracePeriod: 6n * 60n * 60n,
+  });
+}
+
+async function deployWeeklyGroupFixture() {
+  return deployGroupWithConfig({ contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly });
+}
+
+async function deployBiweeklyGroupFixture() {
+  return deployGroupWithConfig({ contributionFrequency: CONTRIBUTION_FREQUENCY.Biweekly });
+}
+
+async function deployMonthlyGroupFixture() {
+  const now = BigInt(await time.latest());
+  return deployGroupWithConfig(
+    { contributionFrequency: CONTRIBUTION_FREQUENCY.Monthly },
+    nextMonthEndStart(now)
+  );
+}
+
+describe("ChamaGroup - Contribution Frequency", function () {
+  describe("Fixed-length periods", function () {
+    const cases = [
+      { name: "daily", fixture: deployDailyGroupFixture, duration: DAY },
+      { name: "weekly", fixture: deployWeeklyGroupFixture, duration: 7n * DAY },
+      { name: "biweekly", fixture: deployBiweeklyGroupFixture, duration: 14n * DAY },
+    ];
+
+    for (const { name, fixture, duration } of cases) {
+      it(`Should use ${name} period boundaries`, async function () {
+        const { group, startDate } = await loadFixture(fixture);
+
+        expect(await group.read.getPeriodDuration([0n])).to.equal(duration);
+        expect(await group.read.getPeriodStart([3n])).to.equal(startDate + duration * 3n);
+
+        await time.increaseTo(startDate + duration - 1n);
+        expect(await group.read.getCurrentPeriod()).to.equal(0n);
+
+        await time.increaseTo(startDate + duration);
+        expect(await group.read.getCurrentPeriod()).to.equal(1n);
+      });
+    }
+
+    it("Should trim default windows to fit daily periods", async function () {
+      const { group } = await loadFixture(deployDailyGroupFixture);
+
+      const window = await group.read.contributionWindow();
+      const grace = await group.read.gracePeriod();
+      expect(window + grace <= DAY).to.be.true;
+    });
+
+    it("Should only allow one contribution per biweekly period", async function () {
+      const { group, user1, startDate, groupConfig } = await loadFixture(deployBiweeklyGroupFixture);
+
+      await time.increaseTo(startDate + DAY);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+
+      // A week later is still the same biweekly period
+      await time.increaseTo(startDate + 8n * DAY);
+      await expect(
+        group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount })
+      ).to.be.rejectedWith("Already contributed this period");
+    });
+
+    it("Should detect daily missed contributions on a daily cadence", async function () {
+      const { group, user1, startDate, groupConfig } = await loadFixture(deployDailyGroupFixture);
+
+      // Skip periods 0 and 1, contribute in period 2
+      await time.increaseTo(startDate + 2n * DAY + 60n);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+
+      const missed = await group.read.getMissedPeriods([user1.account.address]);
+      expect(missed).to.deep.equal([0n, 1n]);
+
+      const member = await group.read.getMemberDetails([user1.account.address]);
+      expect(member[4]).to.equal(2n); // missedContributions
+    });
+  });
+
+  describe("Calendar-month periods", function () {
+    it("Should follow calendar months and clamp to short months", async function () {
+      const { group, startDate } = await loadFixture(deployMonthlyGroupFixture);
+
+      const period1Start = addMonthsUTC(startDate, 1);
+      const period2Start = addMonthsUTC(startDate, 2);
+
+      expect(await group.read.getPeriodStart([0n])).to.equal(startDate);
+      expect(await group.read.getPeriodStart([1n])).to.equal(period1Start);
+      expect(await group.read.getPeriodStart([2n])).to.equal(period2Start);
+      expect(new Date(Number(period2Start) * 1000).getUTCDate()).to.equal(31);
+      expect(await group.read.getPeriodDuration([0n])).to.equal(period1Start - startDate);
+    });
+
+    it("Should roll over on the start day-of-month", async function () {
+      const { group, startDate } = await loadFixture(deployMonthlyGroupFixture);
+
+      const period1Start = addMonthsUTC(startDate, 1);
+
+      await time.increaseTo(period1Start - 1n);
+      expect(await group.read.getCurrentPeriod()).to.equal(0n);
+
+      await time.increaseTo(period1Start);
+      expect(await group.read.getCurrentPeriod()).to.equal(1n);
+    });
+
+    it("Should not punish monthly members on a weekly cadence", async function () {
+      const { group, user1, startDate, groupConfig } = await loadFixture(deployMonthlyGroupFixture);
+
+      await time.increaseTo(startDate + DAY);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+
+      // Three weeks in: still period 0, nothing missed
+      await time.increaseTo(startDate + 3n * BigInt(ONE_WEEK_IN_SECS));
+      expect(await group.read.getCurrentPeriod()).to.equal(0n);
+      expect(await group.read.getMissedPeriods([user1.account.address])).to.have.lengthOf(0);
+
+      await expect(
+        group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount })
+      ).to.be.rejectedWith("Already contributed this period");
+    });
+
+    it("Should count one missed contribution per skipped month", async function () {
+      const { group, user1, startDate, groupConfig } = await loadFixture(deployMonthlyGroupFixture);
+
+      await time.increaseTo(addMonthsUTC(startDate, 1) + DAY);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+
+      const member = await group.read.getMemberDetails([user1.account.address]);
+      expect(member[4]).to.equal(1n); // missedContributions
+    });
+  });
+
+  describe("Factory validation", function () {
+    it("Should reject groups without a contribution frequency", async function () {
+      const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+      const currentTime = BigInt(await time.latest());
+      const config = buildGroupConfig({
+        creator: user1.account.address as `0x${string}`,
+        startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
+        endDate: currentTime + 20n * BigInt(ONE_WEEK_IN_SECS),
+        overrides: { contributionFrequency: CONTRIBUTION_FREQUENCY.None },
+      });
+
+      await expect(
+        factory.write.createGroup([config as any], { account: user1.account })
+      ).to.be.rejectedWith("Invalid contribution frequency");
+    });
+
+    it("Should reject contribution windows longer than the period", async function () {
+      const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+      const currentTime = BigInt(await time.latest());
+      const config = buildGroupConfig({
+        creator: user1.account.address as `0x${string}`,
+        startDate: currentTime + BigInt(ONE_WEEK_IN_SECS),
+        endDate: currentTime + 20n * BigInt(ONE_WEEK_IN_SECS),
+        overrides: { contributionFrequency: CONTRIBUTION_FREQUENCY.Daily },
+      });
+
+      await expect(
+        factory.write.createGroup([config as any], { account: user1.account })
+      ).to.be.rejectedWith("Contribution window exceeds period");
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { expect } from "chai";
+import { getAddress, parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployFactoryFixture,
+  deployGroupWithConfig,
+  buildGroupConfig,
+  payFinesIntoReserve,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+const GUARANTEE_STATUS = { None: 0, Pending: 1, Active: 2 } as const;
+const LOAN_STATUS_COVERED = 6;
+
+// One guarantor required; rotation order user2, user3, user1
+async function deployGuarantorGroupFixture() {
+  const fixture = await deployGroupWithConfig({
+    requiredGuarantors: 1n,
+    loans: { maxLoanBps: 20000n, interestBps: 1000n, repaymentPeriods: 2n },
+    fineValue: parseEther("0.1"),
+  });
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user2.account.address, user3.account.address, user1.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+type GuarantorGroup = Awaited<ReturnType<typeof deployGuarantorGroupFixture>>;
+type Account = GuarantorGroup["user1"];
+
+async function guarantee(group: GuarantorGroup["group"], member: Account, guarantor: Account) {
+  await group.write.nominateGuarantor([guarantor.account.address], { account: member.account });
+  await group.write.acceptGuarantee([member.account.address], { account: guarantor.account });
+}
+
+// Each member guaranteed by another, then period 0 contributed and paid out to user2
+async function deployGuaranteedPayoutFixture() {
+  const fixture = await deployGuarantorGroupFixture();
+  const { group, user1, user2, user3, groupConfig } = fixture;
+
+  await guarantee(group, user2, user3);
+  await guarantee(group, user1, user2);
+  await guarantee(group, user3, user1);
+
+  for (const member of [user1, user2, user3]) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  await group.write.processRotationPayout({ account: user1.account });
+  return fixture;
+}
+
+describe("ChamaGroup - Guarantors", function () {
+  describe("Consent flow", function () {
+    it("Should activate a guarantee once the guarantor accepts", async function () {
+      const { group, user2, user3 } = await loadFixture(deployGuarantorGroupFixture);
+
+      await group.write.nominateGuarantor([user3.account.address], { account: user2.account });
+      expect(await group.read.guaranteeStatus([user2.account.address, user3.account.address])).to.equal(
+        GUARANTEE_STATUS.Pending
+      );
+      expect(await group.read.getActiveGuarantorCount([user2.account.address])).to.equal(0n);
+
+      await group.write.acceptGuarantee([user2.account.address], { account: user3.account });
+
+      expect(await group.read.guaranteeStatus([user2.account.address, user3.account.address])).to.equal(
+        GUARANTEE_STATUS.Active
+      );
+      expect(await group.read.getGuarantors([user2.account.address])).to.deep.equal([
+        getAddress(user3.account.address),
+      ]);
+      expect(await group.read.getGuaranteedMembers([user3.account.address])).to.deep.equal([
+        getAddress(user2.account.address),
+      ]);
+
+      const events = await group.getEvents.GuaranteeAccepted();
+      expect((events[0].args as any).guarantor).to.equal(getAddress(user3.account.address));
+    });
+
+    it("Should validate nominations", async function () {
+      const { group, user1, user2, user3, user4 } = await loadFixture(deployGuarantorGroupFixture);
+
+      await expect(
+        group.write.nominateGuarantor([user2.account.address], { account: user2.account })
+      ).to.be.rejectedWith("Cannot guarantee yourself");
+      await expect(
+        group.write.nominateGuarantor([user4.account.address], { account: user2.account })
+      ).to.be.rejectedWith("Guarantor not an active member");
+
+      await group.write.joinGroup({ account: user4.account });
+      await group.write.nominateGuarantor([user1.account.address], { account: user2.account });
+      await group.write.nominateGuarantor([user3.account.address], { account: user2.account });
+
+      await expect(
+        group.write.nominateGuarantor([user3.account.address], { account: user2.account })
+      ).to.be.rejectedWith("Already nominated");
+      await expect(
+        group.write.nominateGuarantor([user4.account.address], { account: user2.account })
+      ).to.be.rejectedWith("Too many guarantors");
+
+      await expect(
+        group.write.acceptGuarantee([user2.account.address], { account: user4.account })
+      ).to.be.rejectedWith("No pending nomination");
+    });
+
+    it("Should allow revoking a guarantee until it is relied on", async function () {
+      const { group, user2, user3 } = await loadFixture(deployGuarantorGroupFixture);
+
+      await guarantee(group, user2, user3);
+      await group.write.revokeGuarantee([user2.account.address, user3.account.address], { account: user3.account });
+
+      expect(await group.read.guaranteeStatus([user2.account.address, user3.account.address])).to.equal(
+        GUARANTEE_STATUS.None
+      );
+      expect(await group.read.getGuarantors([user2.account.address])).to.have.lengthOf(0);
+      expect(await group.read.getGuaranteedMembers([user3.account.address])).to.have.lengthOf(0);
+
+      const events = await group.getEvents.GuaranteeRevoked();
+      expect(events).to.have.lengthOf(1);
+    });
+
+    it("Should lock guarantees once the member has been paid out", async function () {
+      const { group, user2, user3 } = await loadFixture(deployGuaranteedPayoutFixture);
+
+      await expect(
+        group.write.revokeGuarantee([user2.account.address, user3.account.address], { account: user3.account })
+      ).to.be.rejectedWith("Guarantee in use");
+
+      await expect(
+        group.write.leaveGroup({ account: user3.account })
+      ).to.be.rejectedWith("Guarantee in use");
+    });
+  });
+
+  describe("Co-signing", function () {
+    it("Should only pay out members with the required guarantors", async function () {
+      const { group, user1, user2, user3, groupConfig } = await loadFixture(deployGuarantorGroupFixture);
+
+      for (const member of [user1, user2, user3]) {
+        await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+      }
+
+      await expect(
+        group.write.processRotationPayout({ account: user1.account })
+      ).to.be.rejectedWith("No eligible recipients");
+
+      await guarantee(group, user2, user3);
+      await group.write.processRotationPayout({ account: user1.account });
+
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(getAddress(user2.account.address));
+      expect(payout[3]).to.be.false; // not skipped
+    });
+
+    it("Should require guarantors before disbursing a loan", async function () {
+      const { group, user1, user2, user3, groupConfig } = await loadFixture(deployGuarantorGroupFixture);
+
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+      await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+      await group.write.prepayContributions([3n], {
+        account: user3.account,
+        value: groupConfig.contributionAmount * 3n,
+      });
+      await guarantee(group, user2, user3);
+      await group.write.processRotationPayout({ account: user1.account });
+
+      await group.write.requestLoan([parseEther("0.1")], { account: user3.account });
+      const loanId = await group.read.loanCounter();
+
+      await expect(
+        group.write.approveLoan([loanId], { account: user1.account })
+      ).to.be.rejectedWith("Guarantors required");
+    });
+  });
+
+  describe("Defaults", function () {
+    it("Should charge guarantors for contributions missed after a payout", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig, publicClient } =
+        await loadFixture(deployGuaranteedPayoutFixture);
+
+      // user2 skips period 1; the miss is detected when they contribute in period 2
+      await time.increaseTo(startDate + 2n * WEEK + DAY);
+      for (const member of [user1, user2, user3]) {
+        await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+      }
+
+      expect(await group.read.guarantorDebt([user3.account.address])).to.equal(groupConfig.contributionAmount);
+
+      // The next payout goes to user3, minus what they owe as user2's guarantor
+      const balanceBefore = await publicClient.getBalance({ address: user3.account.address });
+      await group.write.processRotationPayout({ account: user1.account });
+      const balanceAfter = await publicClient.getBalance({ address: user3.account.address });
+
+      expect(balanceAfter - balanceBefore).to.equal(groupConfig.contributionAmount * 2n);
+      expect(await group.read.guarantorDebt([user3.account.address])).to.equal(0n);
+      expect(await group.read.totalFunds()).to.equal(groupConfig.contributionAmount); // the collected debt
+
+      const collected = await group.getEvents.GuarantorDebtCollected();
+      expect((collected[0].args as any).amount).to.equal(groupConfig.contributionAmount);
+    });
+
+    it("Should clear the guarantors' charge once the member pays the arrears", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployGuaranteedPayoutFixture);
+
+      await time.increaseTo(startDate + 2n * WEEK + DAY);
+      await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+      expect(await group.read.guarantorDebt([user3.account.address])).to.equal(groupConfig.contributionAmount);
+
+      await group.write.payArrears([1n], { account: user2.account, value: groupConfig.contributionAmount });
+
+      expect(await group.read.guarantorDebt([user3.account.address])).to.equal(0n);
+      expect(await group.read.guarantorChargedFor([user2.account.address, 1n])).to.equal(0n);
+    });
+
+    it("Should refund a collected charge once the member pays the arrears", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployGuaranteedPayoutFixture);
+
+      await time.increaseTo(startDate + 2n * WEEK + DAY);
+      for (const member of [user1, user2, user3]) {
+        await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+      }
+      await group.write.processRotationPayout({ account: user1.account });
+      expect(await group.read.guarantorDebt([user3.account.address])).to.equal(0n);
+
+      await group.write.payArrears([1n], { account: user2.account, value: groupConfig.contributionAmount });
+
+      expect(await group.read.pendingWithdrawals([user3.account.address])).to.equal(groupConfig.contributionAmount);
+      const reversed = await group.getEvents.GuarantorChargeReversed();
+      expect((reversed[0].args as any).guarantor).to.equal(getAddress(user3.account.address));
+    });
+
+    it("Should move a defaulted loan onto the guarantors", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployGuarantorGroupFixture);
+      const principal = parseEther("0.1");
+
+      await guarantee(group, user2, user3);
+      await guarantee(group, user3, user1);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+      await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+      await group.write.prepayContributions([3n], {
+        account: user3.account,
+        value: groupConfig.contributionAmount * 3n,
+      });
+      await group.write.processRotationPayout({ account: user1.account });
+      await payFinesIntoReserve(group, user1, [user2]);
+
+      await group.write.requestLoan([principal], { account: user3.account });
+      const loanId = await group.read.loanCounter();
+      await group.write.approveLoan([loanId], { account: user1.account });
+
+      await time.increaseTo(startDate + 2n * WEEK + DAY);
+      await group.write.checkLoanDefault([loanId], { account: user1.account });
+
+      const loan = await group.read.getLoanDetails([loanId]);
+      expect(loan.status).to.equal(LOAN_STATUS_COVERED);
+      expect(await group.read.guarantorDebt([user1.account.address])).to.equal(principal + principal / 10n);
+      expect(await group.read.activeLoanId([user3.account.address])).to.equal(0n);
+    });
+  });
+
+  it("Should reject more than two required guarantors", async function () {
+    const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+    const currentTime = BigInt(await time.latest());
+    const config = buildGroupConfig({
+      creator: user1.account.address as `0x${string}`,
+      startDate: currentTime + WEEK,
+      endDate: currentTime + 20n * WEEK,
+      overrides: { requiredGuarantors: 3n },
+    });
+
+    await expect(
+      factory.write.createGroup([config as any], { account: user1.account })
+    ).to.be.rejectedWith("Invalid guarantor requirement");
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  deployTokenGroupFixture,
+  TOKEN_CONTRIBUTION,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// Three members in rotation order user1, user2, user3
+async function deployInstallmentGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  const firstInstallment = (groupConfig.contributionAmount * 40n) / 100n;
+  const secondInstallment = groupConfig.contributionAmount - firstInstallment;
+  return { ...fixture, firstInstallment, secondInstallment };
+}
+
+describe("ChamaGroup - Installment Contributions", function () {
+  it("Should fulfil the period once installments reach the full amount", async function () {
+    const { group, user2, firstInstallment, secondInstallment, groupConfig } =
+      await loadFixture(deployInstallmentGroupFixture);
+
+    await group.write.contributeInstallment([firstInstallment], { account: user2.account, value: firstInstallment });
+
+    expect(await group.read.periodPaidAmount([user2.account.address, 0n])).to.equal(firstInstallment);
+    expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(secondInstallment);
+    expect(await group.read.getMemberContributionTimestamp([user2.account.address, 0n])).to.equal(0n);
+
+    await group.write.contributeInstallment([secondInstallment], { account: user2.account, value: secondInstallment });
+
+    expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(0n);
+    expect(await group.read.getMemberContributionTimestamp([user2.account.address, 0n]) > 0n).to.be.true;
+    expect(await group.read.totalFunds()).to.equal(groupConfig.contributionAmount);
+
+    const installments = await group.getEvents.InstallmentPaid();
+    const lastArgs = installments[0].args as any;
+    expect(lastArgs.user).to.equal(getAddress(user2.account.address));
+    expect(lastArgs.amount).to.equal(secondInstallment);
+    expect(lastArgs.totalPaid).to.equal(groupConfig.contributionAmount);
+
+    const contributions = await group.getEvents.ContributionMade();
+    expect(contributions).to.have.lengthOf(1);
+  });
+
+  it("Should reject installments beyond the amount due", async function () {
+    const { group, user2, firstInstallment, secondInstallment } = await loadFixture(deployInstallmentGroupFixture);
+
+    await group.write.contributeInstallment([secondInstallment], { account: user2.account, value: secondInstallment });
+
+    await expect(
+      group.write.contributeInstallment([secondInstallment], { account: user2.account, value: secondInstallment })
+    ).to.be.rejectedWith("Installment exceeds amount due");
+
+    await expect(
+      group.write.contributeInstallment([firstInstallment], { account: user2.account, value: secondInstallment })
+    ).to.be.rejectedWith("Incorrect installment amount");
+  });
+
+  it("Should let contribute() pay the remaining balance", async function () {
+    const { group, user2, firstInstallment, secondInstallment, groupConfig, publicClient } =
+      await loadFixture(deployInstallmentGroupFixture);
+
+    await group.write.contributeInstallment([firstInstallment], { account: user2.account, value: firstInstallment });
+
+    await expect(
+      group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount })
+    ).to.be.rejectedWith("Incorrect contribution amount");
+
+    const hash = await group.write.contribute({ account: user2.account, value: secondInstallment });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const contributions = await group.getEvents.ContributionMade();
+    expect((contributions[0].args as any).amount).to.equal(secondInstallment);
+
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[3]).to.equal(groupConfig.contributionAmount);
+  });
+
+  it("Should treat a partially paid period as missed after the deadline", async function () {
+    const { group, user2, firstInstallment, startDate, groupConfig } =
+      await loadFixture(deployInstallmentGroupFixture);
+
+    await group.write.contributeInstallment([firstInstallment], { account: user2.account, value: firstInstallment });
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+    expect(await group.read.getMissedPeriods([user2.account.address])).to.deep.equal([0n]);
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[4]).to.equal(1n);
+  });
+
+  it("Should hold the payout while a member has only partially contributed", async function () {
+    const { group, user1, user2, user3, firstInstallment, groupConfig } =
+      await loadFixture(deployInstallmentGroupFixture);
+
+    await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+    await group.write.contribute({ account: user3.account, value: groupConfig.contributionAmount });
+    await group.write.contributeInstallment([firstInstallment], { account: user2.account, value: firstInstallment });
+
+    await expect(
+      group.write.processRotationPayout({ account: user1.account })
+    ).to.be.rejectedWith("Member has only partially contributed");
+  });
+
+  it("Should only charge the outstanding balance as arrears", async function () {
+    const { group, user2, firstInstallment, secondInstallment, startDate } =
+      await loadFixture(deployInstallmentGroupFixture);
+
+    await group.write.contributeInstallment([firstInstallment], { account: user2.account, value: firstInstallment });
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.payArrears([0n], { account: user2.account, value: secondInstallment });
+
+    expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(0n);
+  });
+
+  it("Should accept token installments", async function () {
+    const { group, token, user2 } = await loadFixture(deployTokenGroupFixture);
+
+    await group.write.contributeInstallment([TOKEN_CONTRIBUTION / 2n], { account: user2.account });
+    await group.write.contributeInstallment([TOKEN_CONTRIBUTION / 2n], { account: user2.account });
+
+    expect(await token.read.balanceOf([group.address])).to.equal(TOKEN_CONTRIBUTION);
+    expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(0n);
+  });
+});
@@ -0,0 +1,221 @@
+import { expect } from "chai";
+import { getAddress, parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployFactoryFixture,
+  deployGroupFixture,
+  deployGroupWithConfig,
+  buildGroupConfig,
+  payFinesIntoReserve,
+  PROPOSAL_TYPE,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+const LOAN_STATUS = { None: 0, Requested: 1, Active: 2, Repaid: 3, Defaulted: 4, Rejected: 5 } as const;
+
+// Loans up to 2x contributions at 10% interest over 2 periods. Period 0 is paid out to user1,
+// user3's prepaid periods 1 and 2 stay owed to their payouts, and two paid fines leave 0.2 to lend.
+async function deployLoanGroupFixture() {
+  const fixture = await deployGroupWithConfig({
+    loans: { maxLoanBps: 20000n, interestBps: 1000n, repaymentPeriods: 2n },
+    fineValue: parseEther("0.1"),
+  });
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+  await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+  await group.write.prepayContributions([3n], {
+    account: user3.account,
+    value: groupConfig.contributionAmount * 3n,
+  });
+  await group.write.processRotationPayout({ account: user1.account });
+  await payFinesIntoReserve(group, user1, [user2, user3]);
+
+  const principal = parseEther("0.1");
+  const interest = principal / 10n;
+  return { ...fixture, principal, interest };
+}
+
+type LoanGroup = Awaited<ReturnType<typeof deployLoanGroupFixture>>;
+
+async function requestAndApprove(fixture: LoanGroup) {
+  const { group, user1, user2, principal } = fixture;
+
+  await group.write.requestLoan([principal], { account: user2.account });
+  const loanId = await group.read.loanCounter();
+  await group.write.approveLoan([loanId], { account: user1.account });
+  return loanId;
+}
+
+describe("ChamaGroup - Table Banking Loans", function () {
+  it("Should disburse an admin-approved loan", async function () {
+    const fixture = await loadFixture(deployLoanGroupFixture);
+    const { group, user1, user2, principal, interest, publicClient } = fixture;
+
+    expect(await group.read.getMaxLoanAmount([user2.account.address])).to.equal(parseEther("0.2"));
+
+    await group.write.requestLoan([principal], { account: user2.account });
+    const loanId = await group.read.loanCounter();
+    const fundsBefore = await group.read.totalFunds();
+    const balanceBefore = await publicClient.getBalance({ address: user2.account.address });
+
+    await group.write.approveLoan([loanId], { account: user1.account });
+
+    const balanceAfter = await publicClient.getBalance({ address: user2.account.address });
+    expect(balanceAfter - balanceBefore).to.equal(principal);
+    expect(await group.read.totalFunds()).to.equal(fundsBefore - principal);
+
+    const loan = await group.read.getLoanDetails([loanId]);
+    expect(loan.borrower).to.equal(getAddress(user2.account.address));
+    expect(loan.status).to.equal(LOAN_STATUS.Active);
+    expect(loan.interest).to.equal(interest);
+    expect(loan.installmentAmount).to.equal((principal + interest) / 2n);
+    expect(loan.firstDuePeriod).to.equal(1n);
+    expect(await group.read.getLoanBalance([loanId])).to.equal(principal + interest);
+  });
+
+  it("Should approve a loan by member vote", async function () {
+    const { group, user1, user2, user3, principal } = await loadFixture(deployLoanGroupFixture);
+
+    await group.write.requestLoan([principal], { account: user1.account });
+    const loanId = await group.read.loanCounter();
+
+    // Admins can't approve their own loans, but members can vote them through
+    await expect(
+      group.write.approveLoan([loanId], { account: user1.account })
+    ).to.be.rejectedWith("Cannot approve own loan");
+
+    await group.write.createProposal([PROPOSAL_TYPE.ApproveLoan, user1.account.address, loanId, "Loan for user1"], {
+      account: user2.account,
+    });
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user2, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+    await time.increase(3n * DAY + 1n);
+    await group.write.executeProposal([proposalId], { account: user1.account });
+
+    const loan = await group.read.getLoanDetails([loanId]);
+    expect(loan.status).to.equal(LOAN_STATUS.Active);
+  });
+
+  it("Should enforce borrowing limits", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployLoanGroupFixture);
+
+    await expect(
+      group.write.requestLoan([parseEther("0.21")], { account: user2.account })
+    ).to.be.rejectedWith("Invalid loan amount");
+
+    // user3 may borrow 0.6 but only 0.2 is free to lend
+    await group.write.requestLoan([parseEther("0.3")], { account: user3.account });
+    const loanId = await group.read.loanCounter();
+    await expect(
+      group.write.approveLoan([loanId], { account: user1.account })
+    ).to.be.rejectedWith("Insufficient loanable funds");
+
+    await expect(
+      group.write.requestLoan([parseEther("0.1")], { account: user3.account })
+    ).to.be.rejectedWith("Existing loan");
+  });
+
+  it("Should let a borrower withdraw a pending request", async function () {
+    const { group, user2, principal } = await loadFixture(deployLoanGroupFixture);
+
+    await group.write.requestLoan([principal], { account: user2.account });
+    const loanId = await group.read.loanCounter();
+    await group.write.rejectLoan([loanId], { account: user2.account });
+
+    const loan = await group.read.getLoanDetails([loanId]);
+    expect(loan.status).to.equal(LOAN_STATUS.Rejected);
+    expect(await group.read.activeLoanId([user2.account.address])).to.equal(0n);
+  });
+
+  it("Should close the loan once installments are repaid", async function () {
+    const fixture = await loadFixture(deployLoanGroupFixture);
+    const { group, user2, principal, interest } = fixture;
+    const loanId = await requestAndApprove(fixture);
+    const installment = (principal + interest) / 2n;
+    const fundsBefore = await group.read.totalFunds();
+
+    await group.write.repayLoan([installment], { account: user2.account, value: installment });
+    expect(await group.read.getLoanBalance([loanId])).to.equal(installment);
+
+    await group.write.repayLoan([installment], { account: user2.account, value: installment });
+
+    const loan = await group.read.getLoanDetails([loanId]);
+    expect(loan.status).to.equal(LOAN_STATUS.Repaid);
+    expect(await group.read.activeLoanId([user2.account.address])).to.equal(0n);
+    expect(await group.read.totalFunds()).to.equal(fundsBefore + principal + interest);
+
+    await expect(
+      group.write.repayLoan([1n], { account: user2.account, value: 1n })
+    ).to.be.rejectedWith("No outstanding loan");
+  });
+
+  it("Should punish a borrower who misses an installment", async function () {
+    const fixture = await loadFixture(deployLoanGroupFixture);
+    const { group, user1, user2, startDate } = fixture;
+    const loanId = await requestAndApprove(fixture);
+
+    // The first installment is due during period 1
+    await time.increaseTo(startDate + WEEK + DAY);
+    await expect(
+      group.write.checkLoanDefault([loanId], { account: user1.account })
+    ).to.be.rejectedWith("Loan not in default");
+
+    await time.increaseTo(startDate + 2n * WEEK + DAY);
+    await group.write.checkLoanDefault([loanId], { account: user1.account });
+
+    const loan = await group.read.getLoanDetails([loanId]);
+    expect(loan.status).to.equal(LOAN_STATUS.Defaulted);
+
+    const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+    expect(punishment[1]).to.equal("Loan default");
+    expect(punishment[2]).to.be.true;
+  });
+
+  it("Should block leaving while a loan is outstanding", async function () {
+    const fixture = await loadFixture(deployLoanGroupFixture);
+    const { group, user2 } = fixture;
+    await requestAndApprove(fixture);
+
+    await expect(
+      group.write.leaveGroup({ account: user2.account })
+    ).to.be.rejectedWith("Outstanding loan");
+  });
+
+  it("Should reject loans in groups without a loan policy", async function () {
+    const { group, user1, startDate } = await loadFixture(deployGroupFixture);
+
+    await time.increaseTo(startDate);
+    await expect(
+      group.write.requestLoan([1n], { account: user1.account })
+    ).to.be.rejectedWith("Loans not enabled");
+  });
+
+  it("Should reject loan policies without a repayment schedule", async function () {
+    const { factory, user1 } = await loadFixture(deployFactoryFixture);
+
+    const currentTime = BigInt(await time.latest());
+    const config = buildGroupConfig({
+      creator: user1.account.address as `0x${string}`,
+      startDate: currentTime + WEEK,
+      endDate: currentTime + 20n * WEEK,
+      overrides: { loans: { maxLoanBps: 10000n, interestBps: 0n, repaymentPeriods: 0n } },
+    });
+
+    await expect(
+      factory.write.createGroup([config as any], { account: user1.account })
+    ).to.be.rejectedWith("Invalid loan policy");
+  });
+});
@@ -8,6 +8,13 @@ import {
   ONE_WEEK_IN_SECS,
   ONE_MONTH_IN_SECS,
   DEFAULT_CONTRIBUTION,
+  CONTRIBUTION_FREQUENCY,
+  FINE_TYPE,
+  FINE_AMOUNT,
+  NO_ESCALATION,
+  NO_LOANS,
+  PAYOUT_ORDERING,
+  SHORTFALL_POLICY,
 } from "./fixtures/chamaFixtures";
 
 describe("ChamaGroup - Member Management", function () {
@@ -78,7 +85,7 @@ describe("ChamaGroup - Member Management", function () {
         maxMembers: 3n,
         startDate,
         endDate,
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 0,
         approvalRequired: false,
         emergencyWithdrawAllowed: false,
@@ -86,6 +93,21 @@ describe("ChamaGroup - Member Management", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
         gracePeriod: 86400n, // 1 day
         contributionWindow: 3600n, // 1 hour
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
 
       };
 
@@ -127,7 +149,7 @@ describe("ChamaGroup - Member Management", function () {
         maxMembers: 5n,
         startDate,
         endDate,
-        contributionFrequency: "weekly",
+        contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly,
         punishmentMode: 0,
         approvalRequired: true,
         emergencyWithdrawAllowed: false,
@@ -136,6 +158,21 @@ describe("ChamaGroup - Member Management", function () {
         contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`, // use zero address for native
         gracePeriod: 86400n, // 1 day
         contributionWindow: 3600n, // 1 hour
+        fineType: FINE_TYPE.Fixed,
+        fineValue: FINE_AMOUNT,
+        escalation: NO_ESCALATION,
+        lateFeeBps: 0n,
+        loans: NO_LOANS,
+        requiredGuarantors: 0n,
+        joinDeposit: 0n,
+        distributeSlashedDeposits: false,
+        payoutOrdering: PAYOUT_ORDERING.Fixed,
+        shortfallPolicy: SHORTFALL_POLICY.PayPartial,
+        netDebtsFromPayouts: false,
+        emergencyApprovalThreshold: 2n,
+        adminApprovalThreshold: 1n,
+        timelockDelay: 0n,
+        creatorInactivityPeriods: 0n,
           
       };
 
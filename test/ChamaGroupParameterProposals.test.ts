@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  PROPOSAL_TYPE,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+const VOTING_PERIOD = 3n * DAY;
+
+async function deployGovernedGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  await time.increaseTo(fixture.startDate);
+  await fixture.group.write.joinGroup({ account: fixture.user2.account });
+  await fixture.group.write.joinGroup({ account: fixture.user3.account });
+  return fixture;
+}
+
+type GovernedGroup = Awaited<ReturnType<typeof deployGovernedGroupFixture>>;
+
+// Creates a proposal, passes it unanimously and executes it once voting closes
+async function passProposal(fixture: GovernedGroup, proposalType: number, value: bigint) {
+  const { group, user1, user2, user3 } = fixture;
+
+  await group.write.createProposal([proposalType, user1.account.address, value, "Parameter change"], {
+    account: user1.account,
+  });
+  const proposalId = await group.read.proposalCounter();
+
+  for (const voter of [user1, user2, user3]) {
+    await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+  }
+  await time.increase(VOTING_PERIOD + 1n);
+  await group.write.executeProposal([proposalId], { account: user1.account });
+}
+
+async function enterNextPeriod(fixture: GovernedGroup) {
+  await time.increaseTo(fixture.startDate + WEEK + DAY);
+  await fixture.group.write.applyParameterChanges();
+}
+
+describe("ChamaGroup - Parameter Change Proposals", function () {
+  it("Should change the contribution amount from the next period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+    const { group, user2, groupConfig } = fixture;
+    const newAmount = parseEther("0.2");
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeContributionAmount, newAmount);
+
+    const change = await group.read.parameterChanges([PROPOSAL_TYPE.ChangeContributionAmount]);
+    expect(change[0]).to.equal(newAmount);
+    expect(change[1]).to.equal(1n); // effectivePeriod
+    expect(change[2]).to.be.true;
+
+    // The in-flight period keeps the old amount
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+    await time.increaseTo(fixture.startDate + WEEK + DAY);
+    await expect(
+      group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount })
+    ).to.be.rejectedWith("Incorrect contribution amount");
+    await group.write.contribute({ account: user2.account, value: newAmount });
+
+    const rules = await group.read.rules();
+    expect(rules[1]).to.equal(newAmount);
+    expect(await group.read.pendingParameterChangeCount()).to.equal(0n);
+  });
+
+  it("Should change the grace period from the next period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeGracePeriod, DAY);
+    expect(await fixture.group.read.gracePeriod()).to.equal(2n * DAY);
+
+    await enterNextPeriod(fixture);
+    expect(await fixture.group.read.gracePeriod()).to.equal(DAY);
+  });
+
+  it("Should change the contribution window from the next period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeContributionWindow, 3n * DAY);
+    expect(await fixture.group.read.contributionWindow()).to.equal(5n * DAY);
+
+    await enterNextPeriod(fixture);
+    expect(await fixture.group.read.contributionWindow()).to.equal(3n * DAY);
+
+    const events = await fixture.group.getEvents.ParameterChanged();
+    expect((events[0].args as any).value).to.equal(3n * DAY);
+  });
+
+  it("Should change max members from the next period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeMaxMembers, 3n);
+
+    await enterNextPeriod(fixture);
+    const rules = await fixture.group.read.rules();
+    expect(rules[3]).to.equal(3n);
+
+    await expect(
+      fixture.group.write.joinGroup({ account: fixture.user4.account })
+    ).to.be.rejectedWith("Group is full");
+  });
+
+  it("Should change the proposal duration from the next period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeProposalDuration, DAY);
+    expect(await fixture.group.read.proposalDuration()).to.equal(VOTING_PERIOD);
+
+    await enterNextPeriod(fixture);
+    expect(await fixture.group.read.proposalDuration()).to.equal(DAY);
+  });
+
+  it("Should toggle join approval from the next period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeApprovalRequired, 1n);
+
+    await enterNextPeriod(fixture);
+    await fixture.group.write.joinGroup({ account: fixture.user4.account });
+
+    expect(await fixture.group.read.joinRequests([fixture.user4.account.address])).to.be.true;
+    const member = await fixture.group.read.getMemberDetails([fixture.user4.account.address]);
+    expect(member[0]).to.be.false;
+  });
+
+  it("Should reject invalid parameter values when proposed", async function () {
+    const { group, user1 } = await loadFixture(deployGovernedGroupFixture);
+    const propose = (proposalType: number, value: bigint) =>
+      group.write.createProposal([proposalType, user1.account.address, value, "Invalid"], {
+        account: user1.account,
+      });
+
+    await expect(propose(PROPOSAL_TYPE.ChangeContributionAmount, 0n)).to.be.rejectedWith(
+      "Invalid contribution amount"
+    );
+    await expect(propose(PROPOSAL_TYPE.ChangeContributionWindow, 6n * DAY)).to.be.rejectedWith(
+      "Contribution window exceeds period"
+    );
+    await expect(propose(PROPOSAL_TYPE.ChangeMaxMembers, 2n)).to.be.rejectedWith("Below current member count");
+    await expect(propose(PROPOSAL_TYPE.ChangeProposalDuration, 0n)).to.be.rejectedWith(
+      "Invalid proposal duration"
+    );
+    await expect(propose(PROPOSAL_TYPE.ChangeApprovalRequired, 2n)).to.be.rejectedWith("Invalid boolean value");
+  });
+
+  it("Should validate window changes against a pending grace period", async function () {
+    const fixture = await loadFixture(deployGovernedGroupFixture);
+
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeGracePeriod, DAY);
+
+    // 6 days fits the pending 1-day grace period, not the current 2 days
+    await passProposal(fixture, PROPOSAL_TYPE.ChangeContributionWindow, 6n * DAY);
+    expect(await fixture.group.read.pendingParameterChangeCount()).to.equal(2n);
+
+    await enterNextPeriod(fixture);
+    expect(await fixture.group.read.contributionWindow()).to.equal(6n * DAY);
+    expect(await fixture.group.read.gracePeriod()).to.equal(DAY);
+  });
+});
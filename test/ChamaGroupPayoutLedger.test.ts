@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  FINE_AMOUNT,
+  ONE_WEEK_IN_SECS,
+  PROPOSAL_TYPE,
+  SHORTFALL_POLICY,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// Rotation order user1, user2, user3; a paid fine sits in the reserve and user3's
+// unpaid fine leaves period 0 one contribution short
+async function deployShortfallGroup(shortfallPolicy: number) {
+  const fixture = await deployGroupWithConfig({ shortfallPolicy });
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+  await group.write.payFine({ account: user2.account, value: FINE_AMOUNT });
+  await group.write.punishMember([user3.account.address, 2, "Late"], { account: user1.account }); // Fine
+
+  for (const member of [user1, user2]) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  return fixture;
+}
+
+async function deployPayPartialGroupFixture() {
+  return deployShortfallGroup(SHORTFALL_POLICY.PayPartial);
+}
+
+async function deployWaitGroupFixture() {
+  return deployShortfallGroup(SHORTFALL_POLICY.Wait);
+}
+
+async function deployTopUpGroupFixture() {
+  return deployShortfallGroup(SHORTFALL_POLICY.TopUpFromReserve);
+}
+
+describe("ChamaGroup - Payout Ledger", function () {
+  it("Should record each period's contributions", async function () {
+    const { group, user1, user2, groupConfig } = await loadFixture(deployPayPartialGroupFixture);
+
+    const [ledger, shortfall] = await group.read.getPeriodReconciliation([0n]);
+    expect(ledger.collected).to.equal(groupConfig.contributionAmount * 2n);
+    expect(ledger.expected).to.equal(groupConfig.contributionAmount * 3n);
+    expect(shortfall).to.equal(groupConfig.contributionAmount);
+
+    expect(await group.read.periodContributions([user1.account.address, 0n])).to.equal(groupConfig.contributionAmount);
+    expect(await group.read.undisbursedContributions()).to.equal(groupConfig.contributionAmount * 2n);
+    expect(await group.read.getReserve()).to.equal(FINE_AMOUNT);
+
+    await group.write.prepayContributions([2n], { account: user2.account, value: groupConfig.contributionAmount * 2n });
+    expect((await group.read.getPeriodReconciliation([2n]))[0].collected).to.equal(groupConfig.contributionAmount);
+  });
+
+  it("Should pay only what was collected under PayPartial", async function () {
+    const { group, user1, groupConfig, publicClient } = await loadFixture(deployPayPartialGroupFixture);
+    const collected = groupConfig.contributionAmount * 2n;
+
+    const hash = await group.write.processRotationPayout({ account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    expect((await group.read.getPayoutInfo([0n]))[1]).to.equal(collected);
+    expect(await group.read.totalFunds()).to.equal(FINE_AMOUNT);
+    expect(await group.read.undisbursedContributions()).to.equal(0n);
+
+    const events = await group.getEvents.PayoutShortfall();
+    expect((events[0].args as any).expected).to.equal(groupConfig.contributionAmount * 3n);
+    expect((events[0].args as any).collected).to.equal(collected);
+
+    const [ledger, shortfall] = await group.read.getPeriodReconciliation([0n]);
+    expect(ledger.paidOut).to.equal(collected);
+    expect(shortfall).to.equal(groupConfig.contributionAmount);
+  });
+
+  it("Should hold the payout until the period is fully funded under Wait", async function () {
+    const { group, user1, user3, groupConfig } = await loadFixture(deployWaitGroupFixture);
+
+    await expect(
+      group.write.processRotationPayout({ account: user1.account })
+    ).to.be.rejectedWith("Period underfunded");
+
+    await group.write.payFine({ account: user3.account, value: FINE_AMOUNT });
+    await group.write.contribute({ account: user3.account, value: groupConfig.contributionAmount });
+    await group.write.processRotationPayout({ account: user1.account });
+
+    expect((await group.read.getPayoutInfo([0n]))[1]).to.equal(groupConfig.contributionAmount * 3n);
+  });
+
+  it("Should top up a shortfall from the reserve as far as it goes", async function () {
+    const { group, user1, groupConfig } = await loadFixture(deployTopUpGroupFixture);
+
+    await group.write.processRotationPayout({ account: user1.account });
+
+    expect((await group.read.getPayoutInfo([0n]))[1]).to.equal(groupConfig.contributionAmount * 2n + FINE_AMOUNT);
+    expect(await group.read.totalFunds()).to.equal(0n);
+
+    const [ledger, shortfall] = await group.read.getPeriodReconciliation([0n]);
+    expect(ledger.toppedUp).to.equal(FINE_AMOUNT);
+    expect(shortfall).to.equal(groupConfig.contributionAmount - FINE_AMOUNT);
+  });
+
+  it("Should measure a past period against the pot fixed when it was collected", async function () {
+    const { group, user1, user2, user3, startDate, groupConfig, publicClient } =
+      await loadFixture(deployPayPartialGroupFixture);
+
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.ChangeContributionAmount, user1.account.address, parseEther("0.2"), "Raise contributions"],
+      { account: user1.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user2, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+    await time.increase(3n * DAY + 1n);
+    await group.write.executeProposal([proposalId], { account: user1.account });
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.applyParameterChanges();
+    const hash = await group.write.processPastRotationPayout([0n], { account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const events = await group.getEvents.PayoutShortfall();
+    expect((events[0].args as any).expected).to.equal(groupConfig.contributionAmount * 3n);
+    expect((await group.read.getPeriodReconciliation([0n]))[1]).to.equal(groupConfig.contributionAmount);
+  });
+
+  it("Should take a leaving member's refund out of the period's pot", async function () {
+    const { group, user1, user2, groupConfig } = await loadFixture(deployPayPartialGroupFixture);
+
+    await group.write.leaveGroup({ account: user2.account });
+    expect((await group.read.getPeriodReconciliation([0n]))[0].collected).to.equal(groupConfig.contributionAmount);
+
+    await group.write.processRotationPayout({ account: user1.account });
+    expect((await group.read.getPayoutInfo([0n]))[1]).to.equal(groupConfig.contributionAmount);
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { getAddress, parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, payFinesIntoReserve, FINE_AMOUNT, ONE_WEEK_IN_SECS } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// Rotation order user2, user1, user3 with period 0 contributed (by user2 too unless told otherwise) and user2 fined
+async function deployFinedRecipientGroup(netDebtsFromPayouts: boolean, recipientContributes = true) {
+  const fixture = await deployGroupWithConfig({ netDebtsFromPayouts });
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user2.account.address, user1.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  const contributors = recipientContributes ? [user1, user2, user3] : [user1, user3];
+  for (const member of contributors) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+  return { ...fixture, pot: groupConfig.contributionAmount * BigInt(contributors.length) };
+}
+
+async function deployNettingGroupFixture() {
+  return deployFinedRecipientGroup(true);
+}
+
+async function deploySkippingGroupFixture() {
+  return deployFinedRecipientGroup(false);
+}
+
+async function deployNonContributingRecipientFixture() {
+  return deployFinedRecipientGroup(true, false);
+}
+
+// user2 borrows from a paid fine after period 0 is paid out; their turn comes in period 1, when the first installment is due
+async function deployBorrowerGroupFixture() {
+  const fixture = await deployGroupWithConfig({
+    netDebtsFromPayouts: true,
+    loans: { maxLoanBps: 20000n, interestBps: 1000n, repaymentPeriods: 2n },
+    fineValue: parseEther("0.1"),
+  });
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+  await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+  await group.write.prepayContributions([3n], { account: user3.account, value: groupConfig.contributionAmount * 3n });
+  await group.write.processRotationPayout({ account: user1.account });
+  await payFinesIntoReserve(group, user1, [user3]);
+
+  await group.write.requestLoan([parseEther("0.1")], { account: user2.account });
+  const loanId = await group.read.loanCounter();
+  await group.write.approveLoan([loanId], { account: user1.account });
+  return { ...fixture, loanId };
+}
+
+describe("ChamaGroup - Payout Netting", function () {
+  it("Should deduct an unpaid fine from the payout instead of skipping", async function () {
+    const { group, user1, user2, pot, publicClient } = await loadFixture(deployNettingGroupFixture);
+
+    const hash = await group.write.processRotationPayout({ account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const payout = await group.read.getPayoutInfo([0n]);
+    expect(payout[0]).to.equal(getAddress(user2.account.address));
+    expect(payout[1]).to.equal(pot - FINE_AMOUNT);
+    expect(payout[3]).to.be.false;
+    expect(payout[4]).to.equal(pot);
+    expect(payout[5]).to.equal(FINE_AMOUNT);
+
+    const events = await group.getEvents.PayoutProcessed();
+    expect((events[0].args as any).grossAmount).to.equal(pot);
+    expect((events[0].args as any).deductions).to.equal(FINE_AMOUNT);
+    expect((events[0].args as any).amount).to.equal(pot - FINE_AMOUNT);
+
+    expect((await group.read.punishments([user2.account.address]))[2]).to.be.false;
+    expect(await group.read.skippedPayouts()).to.equal(0n);
+    expect(await group.read.totalFunds()).to.equal(FINE_AMOUNT);
+  });
+
+  it("Should skip a fined member who hasn't contributed for the period", async function () {
+    const { group, user1, pot } = await loadFixture(deployNonContributingRecipientFixture);
+
+    await group.write.processRotationPayout({ account: user1.account });
+
+    const payout = await group.read.getPayoutInfo([0n]);
+    expect(payout[0]).to.equal(getAddress(user1.account.address));
+    expect(payout[3]).to.be.true;
+    expect(payout[1]).to.equal(pot);
+  });
+
+  it("Should still skip fined members when netting is off", async function () {
+    const { group, user1, pot } = await loadFixture(deploySkippingGroupFixture);
+
+    await group.write.processRotationPayout({ account: user1.account });
+
+    const payout = await group.read.getPayoutInfo([0n]);
+    expect(payout[0]).to.equal(getAddress(user1.account.address));
+    expect(payout[3]).to.be.true;
+    expect(payout[4]).to.equal(pot);
+    expect(payout[5]).to.equal(0n);
+  });
+
+  it("Should repay overdue loan installments out of the payout", async function () {
+    const { group, user1, user2, loanId, startDate, groupConfig } = await loadFixture(deployBorrowerGroupFixture);
+    const pot = groupConfig.contributionAmount * 3n;
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    await group.write.processRotationPayout({ account: user1.account });
+
+    const installment = await group.read.getLoanAmountDue([loanId, 1n]);
+    const payout = await group.read.getPayoutInfo([1n]);
+    expect(payout[0]).to.equal(getAddress(user2.account.address));
+    expect(payout[5]).to.equal(installment);
+    expect(payout[1]).to.equal(pot - installment);
+
+    const loan = await group.read.getLoanDetails([loanId]);
+    expect(loan.repaid).to.equal(installment);
+  });
+});
@@ -0,0 +1,245 @@
+import { expect } from "chai";
+import { encodePacked, getAddress, keccak256, parseEther, toHex } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupFixture,
+  deployGroupWithConfig,
+  PAYOUT_ORDERING,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// Rotation order user1, user2, user3 with period 0 fully contributed
+async function deployOrderedGroup(payoutOrdering: number) {
+  const fixture = await deployGroupWithConfig({ payoutOrdering });
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  for (const member of [user1, user2, user3]) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  return fixture;
+}
+
+async function deployRandomDrawGroupFixture() {
+  return deployOrderedGroup(PAYOUT_ORDERING.RandomDraw);
+}
+
+async function deployAuctionGroupFixture() {
+  return deployOrderedGroup(PAYOUT_ORDERING.Auction);
+}
+
+async function deployVoteGroupFixture() {
+  return deployOrderedGroup(PAYOUT_ORDERING.Vote);
+}
+
+function commitmentFor(secret: `0x${string}`, member: `0x${string}`) {
+  return keccak256(encodePacked(["bytes32", "address"], [secret, member]));
+}
+
+describe("ChamaGroup - Payout Ordering", function () {
+  describe("Random draw", function () {
+    const secret1 = toHex(11n, { size: 32 });
+    const secret2 = toHex(22n, { size: 32 });
+
+    it("Should pay the member picked by the revealed seed", async function () {
+      const { group, user1, user2, user3, startDate } = await loadFixture(deployRandomDrawGroupFixture);
+
+      await group.write.commitDrawSeed([commitmentFor(secret1, user1.account.address)], { account: user1.account });
+      await group.write.commitDrawSeed([commitmentFor(secret2, user2.account.address)], { account: user2.account });
+      await expect(
+        group.write.revealDrawSeed([secret1], { account: user1.account })
+      ).to.be.rejectedWith("Reveal phase not open");
+
+      await time.increaseTo(startDate + 5n * DAY);
+      await expect(
+        group.write.processRotationPayout({ account: user1.account })
+      ).to.be.rejectedWith("Draw reveal still open");
+
+      await group.write.revealDrawSeed([secret1], { account: user1.account });
+      await group.write.revealDrawSeed([secret2], { account: user2.account });
+      await group.write.processRotationPayout({ account: user1.account });
+
+      const seed = toHex(11n ^ 22n, { size: 32 });
+      const pick = BigInt(keccak256(encodePacked(["bytes32", "uint256"], [seed, 0n]))) % 3n;
+      const queue = [user1, user2, user3].map((user) => getAddress(user.account.address));
+
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(queue[Number(pick)]);
+      expect(payout[3]).to.be.false;
+    });
+
+    it("Should enforce the commit and reveal phases", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deployRandomDrawGroupFixture);
+
+      await group.write.commitDrawSeed([commitmentFor(secret1, user1.account.address)], { account: user1.account });
+      await expect(
+        group.write.commitDrawSeed([commitmentFor(secret2, user1.account.address)], { account: user1.account })
+      ).to.be.rejectedWith("Already committed");
+
+      await time.increaseTo(startDate + 5n * DAY);
+      await expect(
+        group.write.commitDrawSeed([commitmentFor(secret2, user2.account.address)], { account: user2.account })
+      ).to.be.rejectedWith("Commit phase closed");
+      await expect(
+        group.write.revealDrawSeed([secret2], { account: user1.account })
+      ).to.be.rejectedWith("Invalid reveal");
+      await expect(
+        group.write.revealDrawSeed([secret2], { account: user2.account })
+      ).to.be.rejectedWith("No commitment");
+    });
+
+    it("Should fall back to queue order without the non-revealers after the deadline", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deployRandomDrawGroupFixture);
+
+      await group.write.commitDrawSeed([commitmentFor(secret1, user1.account.address)], { account: user1.account });
+
+      await time.increaseTo(startDate + 6n * DAY);
+      await expect(
+        group.write.revealDrawSeed([secret1], { account: user1.account })
+      ).to.be.rejectedWith("Reveal phase closed");
+      await group.write.processRotationPayout({ account: user1.account });
+
+      // user1 withheld their secret, so the next member in the queue is paid
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(getAddress(user2.account.address));
+      expect(payout[3]).to.be.false;
+    });
+
+    it("Should only draw members not yet paid this round", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployRandomDrawGroupFixture);
+
+      const paid: string[] = [];
+      for (let period = 0n; period < 3n; period++) {
+        const periodStart = startDate + period * WEEK;
+        await time.increaseTo(periodStart + DAY);
+        if (period > 0n) {
+          for (const member of [user1, user2, user3]) {
+            await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+          }
+        }
+
+        const secret = toHex(100n + period, { size: 32 });
+        await group.write.commitDrawSeed([commitmentFor(secret, user2.account.address)], { account: user2.account });
+        await time.increaseTo(periodStart + 5n * DAY);
+        await group.write.revealDrawSeed([secret], { account: user2.account });
+        await group.write.processRotationPayout({ account: user1.account });
+
+        paid.push((await group.read.getPayoutInfo([period]))[0]);
+      }
+
+      expect(new Set(paid).size).to.equal(3);
+    });
+  });
+
+  describe("Discount auction", function () {
+    it("Should pay the highest bidder early and share their discount", async function () {
+      const { group, user1, user2, user3, groupConfig, publicClient } = await loadFixture(deployAuctionGroupFixture);
+      const pot = groupConfig.contributionAmount * 3n;
+      const discount = parseEther("0.05");
+
+      await group.write.placePayoutBid([parseEther("0.03")], { account: user3.account });
+      await expect(
+        group.write.placePayoutBid([parseEther("0.02")], { account: user2.account })
+      ).to.be.rejectedWith("Bid too low");
+      await group.write.placePayoutBid([discount], { account: user2.account });
+
+      const balanceBefore = await publicClient.getBalance({ address: user2.account.address });
+      await group.write.processRotationPayout({ account: user1.account });
+      const balanceAfter = await publicClient.getBalance({ address: user2.account.address });
+
+      expect(balanceAfter - balanceBefore).to.equal(pot - discount);
+      expect(await group.read.pendingWithdrawals([user1.account.address])).to.equal(discount / 2n);
+      expect(await group.read.pendingWithdrawals([user3.account.address])).to.equal(discount / 2n);
+      expect(await group.read.totalFunds()).to.equal(0n);
+
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(getAddress(user2.account.address));
+      expect(payout[1]).to.equal(pot - discount);
+    });
+
+    it("Should follow the queue when nobody bids", async function () {
+      const { group, user1 } = await loadFixture(deployAuctionGroupFixture);
+
+      await group.write.processRotationPayout({ account: user1.account });
+
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(getAddress(user1.account.address));
+    });
+
+    it("Should reject bids from members already paid this round", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployAuctionGroupFixture);
+
+      await group.write.processRotationPayout({ account: user1.account });
+
+      await time.increaseTo(startDate + WEEK + DAY);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+      await expect(
+        group.write.placePayoutBid([1n], { account: user1.account })
+      ).to.be.rejectedWith("Not awaiting a payout");
+      await expect(
+        group.write.placePayoutBid([groupConfig.contributionAmount * 3n], { account: user3.account })
+      ).to.be.rejectedWith("Invalid discount");
+      await group.write.placePayoutBid([1n], { account: user2.account });
+    });
+  });
+
+  describe("Need-based vote", function () {
+    it("Should pay the member with the most votes", async function () {
+      const { group, user1, user2, user3 } = await loadFixture(deployVoteGroupFixture);
+
+      await group.write.voteForRecipient([user2.account.address], { account: user1.account });
+      await group.write.voteForRecipient([user3.account.address], { account: user2.account });
+      await group.write.voteForRecipient([user3.account.address], { account: user3.account });
+      await expect(
+        group.write.voteForRecipient([user2.account.address], { account: user3.account })
+      ).to.be.rejectedWith("Already voted");
+
+      await group.write.processRotationPayout({ account: user1.account });
+
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(getAddress(user3.account.address));
+      expect(await group.read.getPayoutQueue()).to.deep.equal([
+        getAddress(user3.account.address),
+        getAddress(user1.account.address),
+        getAddress(user2.account.address),
+      ]);
+    });
+
+    it("Should not accept votes for members already paid this round", async function () {
+      const { group, user1, user3, startDate } = await loadFixture(deployVoteGroupFixture);
+
+      await group.write.voteForRecipient([user3.account.address], { account: user1.account });
+      await group.write.processRotationPayout({ account: user1.account });
+
+      await time.increaseTo(startDate + WEEK + DAY);
+      await expect(
+        group.write.voteForRecipient([user3.account.address], { account: user1.account })
+      ).to.be.rejectedWith("Invalid candidate");
+    });
+  });
+
+  it("Should reject strategy actions the group isn't configured for", async function () {
+    const { group, user1, startDate } = await loadFixture(deployGroupFixture);
+
+    await time.increaseTo(startDate);
+    await expect(
+      group.write.commitDrawSeed([keccak256("0x01")], { account: user1.account })
+    ).to.be.rejectedWith("Random draw not enabled");
+    await expect(
+      group.write.placePayoutBid([1n], { account: user1.account })
+    ).to.be.rejectedWith("Auction not enabled");
+    await expect(
+      group.write.voteForRecipient([user1.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Recipient voting not enabled");
+  });
+});
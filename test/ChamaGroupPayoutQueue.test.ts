@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  FINE_AMOUNT,
+  PROPOSAL_TYPE,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+async function deployThreeMemberGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  return fixture;
+}
+
+// Rotation order user1, user2, user3
+async function deployQueuedGroupFixture() {
+  const fixture = await deployThreeMemberGroupFixture();
+  const { group, user1, user2, user3 } = fixture;
+
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+type QueuedGroup = Awaited<ReturnType<typeof deployQueuedGroupFixture>>;
+type Account = QueuedGroup["user1"];
+
+async function payPeriod(fixture: QueuedGroup, period: bigint, contributors: Account[]) {
+  const { group, user1, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate + period * WEEK + DAY);
+  for (const member of contributors) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  await group.write.processRotationPayout({ account: user1.account });
+
+  const payout = await group.read.getPayoutInfo([period]);
+  return payout[0];
+}
+
+async function kickMember(fixture: QueuedGroup, target: Account) {
+  const { group, user1, user2, user3 } = fixture;
+
+  await group.write.createProposal([PROPOSAL_TYPE.KickMember, target.account.address, 0n, "Kick"], {
+    account: user1.account,
+  });
+  const proposalId = await group.read.proposalCounter();
+  for (const voter of [user1, user2, user3]) {
+    await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+  }
+  await time.increase(3n * DAY + 1n);
+  await group.write.executeProposal([proposalId], { account: user1.account });
+}
+
+describe("ChamaGroup - Payout Queue Maintenance", function () {
+  it("Should append members who join after the queue is set", async function () {
+    const { group, user4, publicClient } = await loadFixture(deployQueuedGroupFixture);
+
+    const hash = await group.write.joinGroup({ account: user4.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const queue = await group.read.getPayoutQueue();
+    expect(queue).to.have.lengthOf(4);
+    expect(queue[3]).to.equal(getAddress(user4.account.address));
+
+    const events = await group.getEvents.PayoutQueueJoined();
+    expect((events[0].args as any).position).to.equal(3n);
+  });
+
+  it("Should remove departed members from the queue and the member count", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployQueuedGroupFixture);
+
+    await group.write.leaveGroup({ account: user2.account });
+
+    expect(await group.read.getPayoutQueue()).to.deep.equal([
+      getAddress(user1.account.address),
+      getAddress(user3.account.address),
+    ]);
+    expect(await group.read.memberCount()).to.equal(2n);
+  });
+
+  it("Should carry on the rotation after a member is kicked mid-round", async function () {
+    const fixture = await loadFixture(deployQueuedGroupFixture);
+    const { group, user1, user2, user3 } = fixture;
+
+    expect(await payPeriod(fixture, 0n, [user1, user2, user3])).to.equal(getAddress(user1.account.address));
+
+    await kickMember(fixture, user2);
+    expect(await group.read.getPayoutQueue()).to.have.lengthOf(2);
+
+    expect(await payPeriod(fixture, 1n, [user1, user3])).to.equal(getAddress(user3.account.address));
+    expect(await payPeriod(fixture, 2n, [user1, user3])).to.equal(getAddress(user1.account.address));
+    expect(await group.read.payoutRound()).to.equal(1n);
+  });
+
+  it("Should pay a skipped member later in the same round, and nobody twice", async function () {
+    const fixture = await loadFixture(deployQueuedGroupFixture);
+    const { group, user1, user2, user3 } = fixture;
+
+    expect(await payPeriod(fixture, 0n, [user1, user2, user3])).to.equal(getAddress(user1.account.address));
+
+    // user2's turn, but they have an unpaid fine
+    await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+    expect(await payPeriod(fixture, 1n, [user1, user2, user3])).to.equal(getAddress(user3.account.address));
+
+    await group.write.payFine({ account: user2.account, value: FINE_AMOUNT });
+    expect(await payPeriod(fixture, 2n, [user1, user2, user3])).to.equal(getAddress(user2.account.address));
+
+    // A new round starts from the top
+    expect(await payPeriod(fixture, 3n, [user1, user2, user3])).to.equal(getAddress(user1.account.address));
+    expect(await group.read.skippedPayouts()).to.equal(1n);
+  });
+
+  it("Should reject queues with departed or duplicate members", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployThreeMemberGroupFixture);
+
+    await expect(
+      group.write.setPayoutQueue(
+        [[user1.account.address, user2.account.address, user2.account.address]],
+        { account: user1.account }
+      )
+    ).to.be.rejectedWith("Duplicate member in queue");
+
+    await group.write.leaveGroup({ account: user3.account });
+    await expect(
+      group.write.setPayoutQueue([[user1.account.address, user3.account.address]], { account: user1.account })
+    ).to.be.rejectedWith("Invalid member in queue");
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig } from "./fixtures/chamaFixtures";
+
+// Rotation order user1, user2, user3
+async function deploySwapGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+// Period 0 contributed and paid out to user1
+async function deployPaidOutGroupFixture() {
+  const fixture = await deploySwapGroupFixture();
+  const { group, user1, user2, user3, groupConfig } = fixture;
+
+  for (const member of [user1, user2, user3]) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  await group.write.processRotationPayout({ account: user1.account });
+  return fixture;
+}
+
+describe("ChamaGroup - Payout Slot Swaps", function () {
+  it("Should swap places once the counterparty accepts", async function () {
+    const { group, user1, user2, user3, publicClient } = await loadFixture(deploySwapGroupFixture);
+
+    await group.write.offerPayoutSwap([user3.account.address], { account: user1.account });
+    expect(await group.read.payoutSwapOffers([user1.account.address])).to.equal(getAddress(user3.account.address));
+
+    const hash = await group.write.acceptPayoutSwap([user1.account.address], { account: user3.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    expect(await group.read.getPayoutQueue()).to.deep.equal([
+      getAddress(user3.account.address),
+      getAddress(user2.account.address),
+      getAddress(user1.account.address),
+    ]);
+
+    const events = await group.getEvents.PayoutSlotSwapped();
+    expect((events[0].args as any).offerer).to.equal(getAddress(user1.account.address));
+    expect((events[0].args as any).offererNewPosition).to.equal(2n);
+    expect((events[0].args as any).acceptorNewPosition).to.equal(0n);
+
+    await expect(
+      group.write.acceptPayoutSwap([user1.account.address], { account: user3.account })
+    ).to.be.rejectedWith("No swap offer");
+  });
+
+  it("Should only swap between members still waiting for a payout", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployPaidOutGroupFixture);
+
+    await expect(
+      group.write.offerPayoutSwap([user2.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Already paid this round");
+
+    await group.write.offerPayoutSwap([user3.account.address], { account: user2.account });
+    await group.write.acceptPayoutSwap([user2.account.address], { account: user3.account });
+
+    const [, recipients] = await group.read.getUpcomingSchedule();
+    expect(recipients).to.deep.equal([getAddress(user3.account.address), getAddress(user2.account.address)]);
+  });
+
+  it("Should refuse swaps involving punished members", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deploySwapGroupFixture);
+
+    await group.write.offerPayoutSwap([user3.account.address], { account: user2.account });
+    await group.write.punishMember([user3.account.address, 2, "Late"], { account: user1.account }); // Fine
+
+    await expect(
+      group.write.acceptPayoutSwap([user2.account.address], { account: user3.account })
+    ).to.be.rejectedWith("Cannot swap with active punishment");
+    await expect(
+      group.write.offerPayoutSwap([user3.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Cannot swap with active punishment");
+  });
+
+  it("Should let the offerer cancel", async function () {
+    const { group, user2, user3 } = await loadFixture(deploySwapGroupFixture);
+
+    await group.write.offerPayoutSwap([user3.account.address], { account: user2.account });
+    await group.write.cancelPayoutSwap({ account: user2.account });
+
+    await expect(
+      group.write.acceptPayoutSwap([user2.account.address], { account: user3.account })
+    ).to.be.rejectedWith("No swap offer");
+    await expect(
+      group.write.offerPayoutSwap([user2.account.address], { account: user2.account })
+    ).to.be.rejectedWith("Cannot swap with yourself");
+  });
+
+  it("Should list upcoming payouts by period", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deploySwapGroupFixture);
+
+    const [periods, recipients] = await group.read.getUpcomingSchedule();
+    expect(periods).to.deep.equal([0n, 1n, 2n]);
+    expect(recipients).to.deep.equal([
+      getAddress(user1.account.address),
+      getAddress(user2.account.address),
+      getAddress(user3.account.address),
+    ]);
+  });
+
+  it("Should start the schedule after a period already paid out", async function () {
+    const { group, user2, user3 } = await loadFixture(deployPaidOutGroupFixture);
+
+    const [periods, recipients] = await group.read.getUpcomingSchedule();
+    expect(periods).to.deep.equal([1n, 2n]);
+    expect(recipients).to.deep.equal([getAddress(user2.account.address), getAddress(user3.account.address)]);
+  });
+});
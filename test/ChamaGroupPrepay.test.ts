@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  deployTokenGroupFixture,
+  TOKEN_CONTRIBUTION,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// 3-day window plus 1-day grace; three members in rotation order user2, user1, user3
+async function deployPrepayGroupFixture() {
+  const fixture = await deployGroupWithConfig({
+    contributionWindow: 3n * DAY,
+    gracePeriod: DAY,
+  });
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user2.account.address, user1.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+describe("ChamaGroup - Prepaid Contributions", function () {
+  it("Should credit the current and upcoming periods", async function () {
+    const { group, user2, startDate, groupConfig } = await loadFixture(deployPrepayGroupFixture);
+    const amount = groupConfig.contributionAmount * 3n;
+
+    await group.write.prepayContributions([3n], { account: user2.account, value: amount });
+
+    for (const period of [0n, 1n, 2n]) {
+      expect(await group.read.prepaidPeriods([user2.account.address, period])).to.be.true;
+    }
+    expect(await group.read.prepaidPeriods([user2.account.address, 3n])).to.be.false;
+    expect(await group.read.totalFunds()).to.equal(amount);
+    expect(await group.read.getUnusedPrepaidPeriods([user2.account.address])).to.equal(2n);
+
+    const events = await group.getEvents.ContributionsPrepaid();
+    const eventArgs = events[0].args as any;
+    expect(eventArgs.user).to.equal(getAddress(user2.account.address));
+    expect(eventArgs.lastPeriod).to.equal(2n);
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await expect(
+      group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount })
+    ).to.be.rejectedWith("Already contributed this period");
+  });
+
+  it("Should start from the next period once the current window has closed", async function () {
+    const { group, user2, startDate, groupConfig } = await loadFixture(deployPrepayGroupFixture);
+
+    await time.increaseTo(startDate + 5n * DAY);
+    await group.write.prepayContributions([2n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount * 2n,
+    });
+
+    expect(await group.read.prepaidPeriods([user2.account.address, 0n])).to.be.false;
+    expect(await group.read.prepaidPeriods([user2.account.address, 1n])).to.be.true;
+    expect(await group.read.prepaidPeriods([user2.account.address, 2n])).to.be.true;
+  });
+
+  it("Should skip periods that are already paid", async function () {
+    const { group, user2, groupConfig } = await loadFixture(deployPrepayGroupFixture);
+
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    await group.write.prepayContributions([2n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount * 2n,
+    });
+
+    expect(await group.read.prepaidPeriods([user2.account.address, 0n])).to.be.false;
+    expect(await group.read.prepaidUntil([user2.account.address])).to.equal(3n);
+  });
+
+  it("Should not count prepaid periods as missed", async function () {
+    const { group, user1, user2, startDate, groupConfig } = await loadFixture(deployPrepayGroupFixture);
+
+    await group.write.prepayContributions([2n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount * 2n,
+    });
+
+    await time.increaseTo(startDate + 2n * WEEK + DAY);
+    await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+    const member = await group.read.getMemberDetails([user2.account.address]);
+    expect(member[4]).to.equal(0n);
+  });
+
+  it("Should count prepaid periods towards the rotation payout", async function () {
+    const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployPrepayGroupFixture);
+
+    await group.write.prepayContributions([2n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount * 2n,
+    });
+
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+    await group.write.contribute({ account: user3.account, value: groupConfig.contributionAmount });
+    await group.write.processRotationPayout({ account: user1.account });
+
+    // Period 0 was never paid out, so the rotation is still on its first recipient
+    const payout = await group.read.getPayoutInfo([1n]);
+    expect(payout[0]).to.equal(getAddress(user2.account.address));
+  });
+
+  it("Should refund unused credits when leaving after a payout", async function () {
+    const { group, user1, user2, user3, groupConfig, publicClient } = await loadFixture(deployPrepayGroupFixture);
+
+    await group.write.prepayContributions([3n], {
+      account: user2.account,
+      value: groupConfig.contributionAmount * 3n,
+    });
+    await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+    await group.write.contribute({ account: user3.account, value: groupConfig.contributionAmount });
+    await group.write.processRotationPayout({ account: user1.account }); // user2 is paid for period 0
+
+    const hash = await group.write.leaveGroup({ account: user2.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const events = await group.getEvents.MemberLeft();
+    const eventArgs = events[0].args as any;
+    expect(eventArgs.refundAmount).to.equal(groupConfig.contributionAmount * 2n);
+    expect(await group.read.prepaidUntil([user2.account.address])).to.equal(0n);
+  });
+
+  it("Should reject incorrect amounts and prepayments past the end date", async function () {
+    const { group, user2, groupConfig } = await loadFixture(deployPrepayGroupFixture);
+
+    await expect(
+      group.write.prepayContributions([0n], { account: user2.account })
+    ).to.be.rejectedWith("Invalid number of periods");
+
+    await expect(
+      group.write.prepayContributions([2n], { account: user2.account, value: groupConfig.contributionAmount })
+    ).to.be.rejectedWith("Incorrect prepayment amount");
+
+    await expect(
+      group.write.prepayContributions([100n], {
+        account: user2.account,
+        value: groupConfig.contributionAmount * 100n,
+      })
+    ).to.be.rejectedWith("Prepayment exceeds group end");
+  });
+
+  it("Should accept token prepayments", async function () {
+    const { group, token, user2 } = await loadFixture(deployTokenGroupFixture);
+
+    await group.write.prepayContributions([3n], { account: user2.account });
+
+    expect(await token.read.balanceOf([group.address])).to.equal(TOKEN_CONTRIBUTION * 3n);
+    expect(await group.read.totalFunds()).to.equal(TOKEN_CONTRIBUTION * 3n);
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig } from "./fixtures/chamaFixtures";
+
+// A receiver contract that rejects ETH is first in the rotation; period 0 is fully contributed
+async function deployRevertingRecipientFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+  const receiver = await hre.viem.deployContract("RevertingReceiver");
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await receiver.write.joinGroup([group.address], { account: user3.account });
+  await group.write.setPayoutQueue(
+    [[receiver.address, user1.account.address, user2.account.address]],
+    { account: user1.account }
+  );
+
+  await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+  await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+  await receiver.write.contribute([group.address], {
+    account: user3.account,
+    value: groupConfig.contributionAmount,
+  });
+  return { ...fixture, receiver, pot: groupConfig.contributionAmount * 3n };
+}
+
+describe("ChamaGroup - Pull Payments", function () {
+  it("Should credit a payout the recipient rejects instead of reverting", async function () {
+    const { group, user1, receiver, pot, publicClient } = await loadFixture(deployRevertingRecipientFixture);
+
+    const hash = await group.write.processRotationPayout({ account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    expect(await group.read.pendingWithdrawals([receiver.address])).to.equal(pot);
+    expect(await group.read.totalPendingWithdrawals()).to.equal(pot);
+
+    const events = await group.getEvents.PaymentCredited();
+    expect((events[0].args as any).user).to.equal(getAddress(receiver.address));
+    expect((events[0].args as any).amount).to.equal(pot);
+
+    const payout = await group.read.getPayoutInfo([0n]);
+    expect(payout[0]).to.equal(getAddress(receiver.address));
+  });
+
+  it("Should let the recipient withdraw once it accepts payments", async function () {
+    const { group, user1, user3, receiver, pot, publicClient } = await loadFixture(deployRevertingRecipientFixture);
+
+    await group.write.processRotationPayout({ account: user1.account });
+
+    await expect(
+      receiver.write.withdraw([group.address], { account: user3.account })
+    ).to.be.rejectedWith("Transfer failed");
+
+    await receiver.write.setAcceptPayments([true], { account: user3.account });
+    await receiver.write.withdraw([group.address], { account: user3.account });
+
+    expect(await publicClient.getBalance({ address: receiver.address })).to.equal(pot);
+    expect(await group.read.pendingWithdrawals([receiver.address])).to.equal(0n);
+    expect(await group.read.totalPendingWithdrawals()).to.equal(0n);
+
+    await expect(
+      group.write.withdraw({ account: user3.account })
+    ).to.be.rejectedWith("Nothing to withdraw");
+  });
+
+  it("Should credit members who opt out of push payments", async function () {
+    const { group, user2, groupConfig } = await loadFixture(deployRevertingRecipientFixture);
+
+    await group.write.setPullPayments([true], { account: user2.account });
+    await group.write.leaveGroup({ account: user2.account });
+
+    expect(await group.read.pendingWithdrawals([user2.account.address])).to.equal(
+      groupConfig.contributionAmount
+    );
+
+    await group.write.withdraw({ account: user2.account });
+    expect(await group.read.pendingWithdrawals([user2.account.address])).to.equal(0n);
+  });
+
+  it("Should keep credited payments out of an emergency withdraw", async function () {
+    const { group, user1, user2, receiver, pot } = await loadFixture(deployRevertingRecipientFixture);
+
+    await group.write.processRotationPayout({ account: user1.account });
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user2.account });
+
+    expect(await group.read.pendingWithdrawals([receiver.address])).to.equal(pot);
+    expect(await group.read.totalPendingWithdrawals()).to.equal(pot);
+    expect(await group.read.getBalance()).to.equal(pot);
+  });
+});
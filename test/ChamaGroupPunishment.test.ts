@@ -22,6 +22,8 @@ describe("ChamaGroup - Punishment System", function () {
         string,  
         boolean, 
         bigint,   
+        bigint,   
+        bigint,   
         bigint    
         ];
       expect(punishment[0]).to.equal(2); // Fine
@@ -73,6 +75,8 @@ describe("ChamaGroup - Punishment System", function () {
         string,  
         boolean, 
         bigint,   
+        bigint,   
+        bigint,   
         bigint    
         ];
       expect(punishment[2]).to.be.false; // isActive should be false
@@ -119,6 +123,8 @@ describe("ChamaGroup - Punishment System", function () {
         string,  
         boolean, 
         bigint,   
+        bigint,   
+        bigint,   
         bigint    
         ];
       expect(punishment[2]).to.be.false; // isActive should be false
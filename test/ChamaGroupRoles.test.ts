@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, PROPOSAL_TYPE, ROLE } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+
+// user2 and user3 are plain members; user4 has asked to join
+async function deployOfficialsGroupFixture() {
+  const fixture = await deployGroupWithConfig({ approvalRequired: true });
+  const { group, user1, user2, user3, user4, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  for (const member of [user2, user3]) {
+    await group.write.joinGroup({ account: member.account });
+    await group.write.approveJoinRequest([member.account.address], { account: user1.account });
+  }
+  await group.write.joinGroup({ account: user4.account });
+  return fixture;
+}
+
+describe("ChamaGroup - Officials", function () {
+  it("Should let each official act only within their role", async function () {
+    const { group, user1, user2, user3, user4 } = await loadFixture(deployOfficialsGroupFixture);
+
+    await group.write.grantRole([ROLE.Secretary, user2.account.address, 0n], { account: user1.account });
+    await group.write.grantRole([ROLE.Chair, user3.account.address, 0n], { account: user1.account });
+
+    await expect(
+      group.write.punishMember([user4.account.address, 2, "Late"], { account: user2.account })
+    ).to.be.rejectedWith("Not admin");
+    await group.write.approveJoinRequest([user4.account.address], { account: user2.account });
+    expect((await group.read.members([user4.account.address]))[1]).to.be.true;
+
+    await expect(
+      group.write.processRotationPayout({ account: user3.account })
+    ).to.be.rejectedWith("Not admin");
+    await group.write.punishMember([user4.account.address, 2, "Late"], { account: user3.account }); // Fine
+    expect((await group.read.punishments([user4.account.address]))[2]).to.be.true;
+  });
+
+  it("Should list current officials and each member's roles", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployOfficialsGroupFixture);
+
+    await group.write.grantRole([ROLE.Treasurer, user2.account.address, 0n], { account: user1.account });
+    await group.write.grantRole([ROLE.Treasurer, user3.account.address, 10n * DAY], { account: user1.account });
+    await group.write.grantRole([ROLE.Chair, user2.account.address, 0n], { account: user1.account });
+
+    const [holders] = await group.read.getRoleHolders([ROLE.Treasurer]);
+    expect(holders).to.deep.equal([getAddress(user2.account.address), getAddress(user3.account.address)]);
+    expect(await group.read.getRolesOf([user2.account.address])).to.deep.equal([ROLE.Chair, ROLE.Treasurer]);
+
+    await group.write.revokeRole([ROLE.Treasurer, user2.account.address], { account: user1.account });
+    await expect(
+      group.write.revokeRole([ROLE.Treasurer, user2.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Role not held");
+    expect((await group.read.getRoleHolders([ROLE.Treasurer]))[0]).to.deep.equal([getAddress(user3.account.address)]);
+
+    await expect(
+      group.write.grantRole([ROLE.Chair, user2.account.address, 0n], { account: user2.account })
+    ).to.be.rejectedWith("Only creator");
+  });
+
+  it("Should elect an official for a term", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployOfficialsGroupFixture);
+    const term = 30n * DAY;
+
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.ElectTreasurer, user2.account.address, term, "Treasurer for the quarter"],
+      { account: user3.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user2, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+    await time.increase(3n * DAY + 1n);
+    await group.write.executeProposal([proposalId], { account: user1.account });
+
+    expect(await group.read.hasRole([ROLE.Treasurer, user2.account.address])).to.be.true;
+    const [, expiresAt] = await group.read.getRoleHolders([ROLE.Treasurer]);
+
+    await time.increaseTo(expiresAt[0]);
+    expect(await group.read.hasRole([ROLE.Treasurer, user2.account.address])).to.be.false;
+    expect((await group.read.getRoleHolders([ROLE.Treasurer]))[0]).to.deep.equal([]);
+  });
+
+  it("Should remove an official through a vote", async function () {
+    const { group, user1, user2, user3 } = await loadFixture(deployOfficialsGroupFixture);
+
+    await expect(
+      group.write.createProposal(
+        [PROPOSAL_TYPE.RemoveOfficial, user2.account.address, BigInt(ROLE.Chair), "Step down"],
+        { account: user3.account }
+      )
+    ).to.be.rejectedWith("Role not held");
+
+    await group.write.grantRole([ROLE.Chair, user2.account.address, 0n], { account: user1.account });
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.RemoveOfficial, user2.account.address, BigInt(ROLE.Chair), "Step down"],
+      { account: user3.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+    await time.increase(3n * DAY + 1n);
+    await group.write.executeProposal([proposalId], { account: user1.account });
+
+    expect(await group.read.hasRole([ROLE.Chair, user2.account.address])).to.be.false;
+  });
+
+  it("Should strip a departing member's roles", async function () {
+    const { group, user1, user2 } = await loadFixture(deployOfficialsGroupFixture);
+
+    await group.write.grantRole([ROLE.Secretary, user2.account.address, 0n], { account: user1.account });
+    await group.write.leaveGroup({ account: user2.account });
+
+    expect(await group.read.roleExpiresAt([user2.account.address, ROLE.Secretary])).to.equal(0n);
+    expect(await group.read.getRolesOf([user2.account.address])).to.deep.equal([]);
+  });
+});
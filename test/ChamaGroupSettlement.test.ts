@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, FINE_AMOUNT } from "./fixtures/chamaFixtures";
+
+async function deploySettlementGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+// Period 0 contributed but never paid out, plus one paid fine
+async function deployUnpaidPeriodFixture() {
+  const fixture = await deploySettlementGroupFixture();
+  const { group, user1, user2, user3, groupConfig } = fixture;
+
+  for (const member of [user1, user2, user3]) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+  await group.write.payFine({ account: user2.account, value: FINE_AMOUNT });
+  return fixture;
+}
+
+describe("ChamaGroup - Settlement", function () {
+  it("Should only settle once the end date has passed", async function () {
+    const { group, groupConfig } = await loadFixture(deployUnpaidPeriodFixture);
+
+    await expect(group.write.settleGroup()).to.be.rejectedWith("Group has not ended");
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    await group.write.settleGroup();
+
+    expect(await group.read.settled()).to.be.true;
+    expect(await group.read.isActive()).to.be.false;
+    await expect(group.write.settleGroup()).to.be.rejectedWith("Group already settled");
+  });
+
+  it("Should return net contributions and share fines equally", async function () {
+    const { group, user1, user2, user3, groupConfig } = await loadFixture(deployUnpaidPeriodFixture);
+    const fineShare = FINE_AMOUNT / 3n;
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    await group.write.settleGroup();
+
+    for (const member of [user1, user2, user3]) {
+      expect(await group.read.settlementClaims([member.account.address])).to.equal(
+        groupConfig.contributionAmount + fineShare
+      );
+    }
+    // Rounding dust stays in the pot
+    expect(await group.read.totalFunds()).to.equal(FINE_AMOUNT - fineShare * 3n);
+    expect(await group.read.unclaimedSettlement()).to.equal((groupConfig.contributionAmount + fineShare) * 3n);
+  });
+
+  it("Should scale claims down when the pot is short", async function () {
+    const { group, user1, user2, user3, groupConfig } = await loadFixture(deploySettlementGroupFixture);
+
+    // user1 takes the whole period 0 pot, leaving only the fines behind
+    for (const member of [user1, user2, user3]) {
+      await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+    }
+    await group.write.processRotationPayout({ account: user1.account });
+    for (const member of [user2, user3]) {
+      await group.write.punishMember([member.account.address, 2, "Late"], { account: user1.account }); // Fine
+      await group.write.payFine({ account: member.account, value: FINE_AMOUNT });
+    }
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    await group.write.settleGroup();
+
+    expect(await group.read.settlementClaims([user1.account.address])).to.equal(0n);
+    expect(await group.read.settlementClaims([user2.account.address])).to.equal(FINE_AMOUNT);
+    expect(await group.read.settlementClaims([user3.account.address])).to.equal(FINE_AMOUNT);
+    expect(await group.read.totalFunds()).to.equal(0n);
+  });
+
+  it("Should exclude members who already left", async function () {
+    const { group, user3, groupConfig } = await loadFixture(deployUnpaidPeriodFixture);
+
+    await group.write.leaveGroup({ account: user3.account });
+    await time.increaseTo(groupConfig.endDate + 1n);
+    await group.write.settleGroup();
+
+    expect(await group.read.getMembers()).to.have.lengthOf(3);
+    expect(await group.read.settlementClaims([user3.account.address])).to.equal(0n);
+  });
+
+  it("Should pay out claims once", async function () {
+    const { group, user2, groupConfig, publicClient } = await loadFixture(deployUnpaidPeriodFixture);
+
+    await expect(
+      group.write.claimSettlement({ account: user2.account })
+    ).to.be.rejectedWith("Group not settled");
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    await group.write.settleGroup();
+    const claim = await group.read.settlementClaims([user2.account.address]);
+
+    const hash = await group.write.claimSettlement({ account: user2.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const events = await group.getEvents.SettlementClaimed();
+    expect((events[0].args as any).amount).to.equal(claim);
+    expect(await group.read.settlementClaims([user2.account.address])).to.equal(0n);
+
+    await expect(
+      group.write.claimSettlement({ account: user2.account })
+    ).to.be.rejectedWith("Nothing to claim");
+  });
+
+  it("Should keep unclaimed settlements out of an emergency withdraw", async function () {
+    const { group, user1, user2, groupConfig } = await loadFixture(deployUnpaidPeriodFixture);
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    await group.write.settleGroup();
+    const unclaimed = await group.read.unclaimedSettlement();
+    const claim = await group.read.settlementClaims([user2.account.address]);
+
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user1.account });
+    await group.write.approveEmergencyWithdraw({ account: user2.account });
+    expect(await group.read.unclaimedSettlement()).to.equal(unclaimed);
+    expect(await group.read.settlementClaims([user2.account.address])).to.equal(claim);
+    // Rounding dust stays in the pot
+    expect(await group.read.getBalance()).to.equal(
+      unclaimed + (await group.read.totalPendingWithdrawals()) + (await group.read.totalFunds())
+    );
+  });
+
+  it("Should report the settlement to the factory", async function () {
+    const { factory, group, groupAddress, groupConfig, publicClient } =
+      await loadFixture(deployUnpaidPeriodFixture);
+
+    await time.increaseTo(groupConfig.endDate + 1n);
+    const hash = await group.write.settleGroup();
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    expect(await factory.read.isSettledGroup([groupAddress])).to.be.true;
+
+    const events = await factory.getEvents.GroupSettled();
+    expect((events[0].args as any).groupAddress).to.equal(getAddress(groupAddress));
+    expect((events[0].args as any).distributed).to.equal(await group.read.unclaimedSettlement());
+  });
+});
@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, FINE_AMOUNT, ONE_WEEK_IN_SECS, type GroupConfig } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// user2 holds two shares; user1 and user3 one each
+async function deployMultiShareGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroupWithShares([2n], { account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  return fixture;
+}
+
+// Rotation order user2, user1, user2, user3
+async function deployMultiShareQueueFixture() {
+  const fixture = await deployMultiShareGroupFixture();
+  const { group, user1, user2, user3 } = fixture;
+
+  await group.write.setPayoutQueue(
+    [[user2.account.address, user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+  return fixture;
+}
+
+// user3 holds no shares and co-owns 40% of user2's slot; rotation order user2, user1
+async function deployCoOwnedSlot(overrides: Partial<GroupConfig>) {
+  const fixture = await deployGroupWithConfig(overrides);
+  const { group, user1, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroupWithShares([0n], { account: user3.account });
+  await group.write.offerSlotSplit([user3.account.address, 4000n], { account: user2.account });
+  await group.write.acceptSlotSplit([user2.account.address], { account: user3.account });
+  await group.write.setPayoutQueue([[user2.account.address, user1.account.address]], { account: user1.account });
+  return fixture;
+}
+
+async function deployCoOwnedSlotFixture() {
+  return deployCoOwnedSlot({});
+}
+
+async function deployNettingCoOwnedSlotFixture() {
+  return deployCoOwnedSlot({ netDebtsFromPayouts: true });
+}
+
+describe("ChamaGroup - Shares", function () {
+  describe("Multiple shares", function () {
+    it("Should scale a member's contribution by their shares", async function () {
+      const { group, user2, groupConfig } = await loadFixture(deployMultiShareGroupFixture);
+
+      expect(await group.read.activeShares()).to.equal(4n);
+      expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(
+        groupConfig.contributionAmount * 2n
+      );
+
+      await expect(
+        group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount })
+      ).to.be.rejectedWith("Incorrect contribution amount");
+      await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount * 2n });
+
+      expect((await group.read.members([user2.account.address]))[3]).to.equal(groupConfig.contributionAmount * 2n);
+    });
+
+    it("Should require one queue slot per share", async function () {
+      const { group, user1, user2, user3 } = await loadFixture(deployMultiShareGroupFixture);
+
+      await expect(
+        group.write.setPayoutQueue(
+          [[user1.account.address, user2.account.address, user3.account.address]],
+          { account: user1.account }
+        )
+      ).to.be.rejectedWith("Invalid queue length");
+      await expect(
+        group.write.setPayoutQueue(
+          [[user1.account.address, user2.account.address, user3.account.address, user3.account.address]],
+          { account: user1.account }
+        )
+      ).to.be.rejectedWith("Duplicate member in queue");
+    });
+
+    it("Should pay the whole pot once per share", async function () {
+      const { group, user1, user2, user3, startDate, groupConfig } = await loadFixture(deployMultiShareQueueFixture);
+      const pot = groupConfig.contributionAmount * 4n;
+
+      const recipients: string[] = [];
+      for (let period = 0n; period < 3n; period++) {
+        await time.increaseTo(startDate + period * WEEK + DAY);
+        await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+        await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount * 2n });
+        await group.write.contribute({ account: user3.account, value: groupConfig.contributionAmount });
+        await group.write.processRotationPayout({ account: user1.account });
+
+        const payout = await group.read.getPayoutInfo([period]);
+        expect(payout[1]).to.equal(pot);
+        recipients.push(payout[0]);
+      }
+
+      expect(recipients).to.deep.equal([
+        getAddress(user2.account.address),
+        getAddress(user1.account.address),
+        getAddress(user2.account.address),
+      ]);
+      expect(await group.read.payoutsReceived([user2.account.address])).to.equal(pot * 2n);
+    });
+
+    it("Should add and remove every slot a member holds", async function () {
+      const { group, user1, user2, user3, user4 } = await loadFixture(deployMultiShareQueueFixture);
+
+      await expect(
+        group.write.joinGroupWithShares([6n], { account: user4.account })
+      ).to.be.rejectedWith("Invalid share count");
+      await group.write.joinGroupWithShares([2n], { account: user4.account });
+      expect(await group.read.getPayoutQueue()).to.have.lengthOf(6);
+
+      await group.write.leaveGroup({ account: user2.account });
+      expect(await group.read.getPayoutQueue()).to.deep.equal([
+        getAddress(user1.account.address),
+        getAddress(user3.account.address),
+        getAddress(user4.account.address),
+        getAddress(user4.account.address),
+      ]);
+      expect(await group.read.activeShares()).to.equal(4n);
+    });
+  });
+
+  describe("Co-owned slots", function () {
+    it("Should split the slot's contribution between its owners", async function () {
+      const { group, user2, user3, groupConfig } = await loadFixture(deployCoOwnedSlotFixture);
+      const coOwnerShare = (groupConfig.contributionAmount * 4000n) / 10000n;
+
+      expect(await group.read.coOwnedSlotOf([user3.account.address])).to.equal(getAddress(user2.account.address));
+      expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(
+        groupConfig.contributionAmount - coOwnerShare
+      );
+      expect(await group.read.getOutstandingAmount([user3.account.address, 0n])).to.equal(coOwnerShare);
+    });
+
+    it("Should pay the co-owner their split of the payout", async function () {
+      const { group, user1, user2, user3, groupConfig, publicClient } = await loadFixture(deployCoOwnedSlotFixture);
+      const pot = groupConfig.contributionAmount * 2n;
+      const coOwnerShare = (groupConfig.contributionAmount * 4000n) / 10000n;
+
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+      await group.write.contribute({
+        account: user2.account,
+        value: groupConfig.contributionAmount - coOwnerShare,
+      });
+      await expect(
+        group.write.processRotationPayout({ account: user1.account })
+      ).to.be.rejectedWith("Member has not contributed yet");
+      await group.write.contribute({ account: user3.account, value: coOwnerShare });
+
+      const hash = await group.write.processRotationPayout({ account: user1.account });
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const coOwnerAmount = (pot * 4000n) / 10000n;
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[0]).to.equal(getAddress(user2.account.address));
+      expect(payout[1]).to.equal(pot);
+      expect(await group.read.payoutsReceived([user2.account.address])).to.equal(pot - coOwnerAmount);
+      expect(await group.read.payoutsReceived([user3.account.address])).to.equal(coOwnerAmount);
+
+      const events = await group.getEvents.CoOwnerPaid();
+      expect((events[0].args as any).coOwner).to.equal(getAddress(user3.account.address));
+      expect((events[0].args as any).amount).to.equal(coOwnerAmount);
+    });
+
+    it("Should take each owner's debts out of their own split", async function () {
+      const { group, user1, user2, user3, groupConfig, publicClient } =
+        await loadFixture(deployNettingCoOwnedSlotFixture);
+      const pot = groupConfig.contributionAmount * 2n;
+      const coOwnerShare = (groupConfig.contributionAmount * 4000n) / 10000n;
+
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+      await group.write.contribute({
+        account: user2.account,
+        value: groupConfig.contributionAmount - coOwnerShare,
+      });
+      await group.write.contribute({ account: user3.account, value: coOwnerShare });
+      await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+
+      const hash = await group.write.processRotationPayout({ account: user1.account });
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const coOwnerAmount = (pot * 4000n) / 10000n;
+      const payout = await group.read.getPayoutInfo([0n]);
+      expect(payout[1]).to.equal(pot - FINE_AMOUNT);
+      expect(payout[5]).to.equal(FINE_AMOUNT);
+      expect(await group.read.payoutsReceived([user2.account.address])).to.equal(pot - coOwnerAmount - FINE_AMOUNT);
+      expect(await group.read.payoutsReceived([user3.account.address])).to.equal(coOwnerAmount);
+    });
+
+    it("Should only split single-share slots with members holding no shares", async function () {
+      const { group, user1, user2, user3, user4, startDate, groupConfig } =
+        await loadFixture(deployMultiShareGroupFixture);
+
+      await group.write.joinGroupWithShares([0n], { account: user4.account });
+      await expect(
+        group.write.contribute({ account: user4.account, value: 0n })
+      ).to.be.rejectedWith("No shares held");
+
+      await expect(
+        group.write.offerSlotSplit([user4.account.address, 5000n], { account: user2.account })
+      ).to.be.rejectedWith("Only single-share slots can be split");
+      await expect(
+        group.write.offerSlotSplit([user3.account.address, 5000n], { account: user1.account })
+      ).to.be.rejectedWith("Invalid co-owner");
+      await expect(
+        group.write.offerSlotSplit([user4.account.address, 10000n], { account: user1.account })
+      ).to.be.rejectedWith("Invalid split");
+
+      await time.increaseTo(startDate + DAY);
+      await group.write.contribute({ account: user1.account, value: groupConfig.contributionAmount });
+      await expect(
+        group.write.offerSlotSplit([user4.account.address, 5000n], { account: user1.account })
+      ).to.be.rejectedWith("Contributions already made");
+    });
+
+    it("Should dissolve the split when the co-owner leaves", async function () {
+      const { group, user2, user3, groupConfig } = await loadFixture(deployCoOwnedSlotFixture);
+
+      await group.write.leaveGroup({ account: user3.account });
+
+      expect(await group.read.coOwnedSlotOf([user3.account.address])).to.equal(
+        "0x0000000000000000000000000000000000000000"
+      );
+      expect(await group.read.getOutstandingAmount([user2.account.address, 0n])).to.equal(
+        groupConfig.contributionAmount
+      );
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { getAddress } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  FINE_AMOUNT,
+  NO_ESCALATION,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// Banned on the first miss for 2 periods; fines due within 1 period
+async function deploySuspensionGroupFixture() {
+  const fixture = await deployGroupWithConfig({
+    escalation: {
+      ...NO_ESCALATION,
+      banThreshold: 1n,
+      suspensionPeriods: 2n,
+      fineDuePeriods: 1n,
+    },
+  });
+  await time.increaseTo(fixture.startDate);
+  await fixture.group.write.joinGroup({ account: fixture.user2.account });
+  await fixture.group.write.joinGroup({ account: fixture.user3.account });
+  return fixture;
+}
+
+describe("ChamaGroup - Suspensions and Expiring Punishments", function () {
+  describe("Suspensions", function () {
+    it("Should suspend a member until the expiry period", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deploySuspensionGroupFixture);
+
+      await group.write.suspendMember([user2.account.address, 2n, "Misconduct"], { account: user1.account });
+
+      const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+      expect(punishment[0]).to.equal(3); // Ban
+      expect(punishment[5]).to.equal(startDate + 2n * WEEK); // expiresAt
+      expect(await group.read.getActiveMemberCount()).to.equal(2n);
+    });
+
+    it("Should reinstate automatically when the member returns after expiry", async function () {
+      const { group, user1, user2, startDate, groupConfig } = await loadFixture(deploySuspensionGroupFixture);
+
+      await group.write.suspendMember([user2.account.address, 2n, "Misconduct"], { account: user1.account });
+
+      await time.increaseTo(startDate + WEEK + DAY);
+      await expect(
+        group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount })
+      ).to.be.rejectedWith("Not an active member");
+
+      await time.increaseTo(startDate + 2n * WEEK + DAY);
+      await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+
+      const events = await group.getEvents.MemberReinstated();
+      expect(events).to.have.lengthOf(1);
+      expect((events[0].args as any).user).to.equal(getAddress(user2.account.address));
+
+      const member = await group.read.getMemberDetails([user2.account.address]);
+      expect(member[1]).to.be.true;
+      expect(member[4]).to.equal(0n); // suspended periods aren't counted as missed
+      expect(await group.read.getActiveMemberCount()).to.equal(3n);
+    });
+
+    it("Should let anyone process an expired suspension", async function () {
+      const { group, user1, user2, user3, startDate } = await loadFixture(deploySuspensionGroupFixture);
+
+      await group.write.suspendMember([user2.account.address, 1n, "Misconduct"], { account: user1.account });
+
+      await time.increaseTo(startDate + WEEK);
+      await group.write.processExpiredPunishment([user2.account.address], { account: user3.account });
+
+      const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+      expect(punishment[2]).to.be.false;
+      expect(await group.read.getActiveMemberCount()).to.equal(3n);
+    });
+
+    it("Should give automatic bans the configured suspension length", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deploySuspensionGroupFixture);
+
+      // Miss period 0, detected in period 1
+      await time.increaseTo(startDate + WEEK + DAY);
+      await group.write.checkMissedContribution([user2.account.address], { account: user1.account });
+
+      const punishment = await group.read.getPunishmentDetails([user2.account.address]);
+      expect(punishment[0]).to.equal(3); // Ban
+      expect(punishment[5]).to.equal(startDate + 3n * WEEK);
+    });
+  });
+
+  describe("Fine deadlines", function () {
+    it("Should escalate an unpaid fine to a suspension after its due date", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deploySuspensionGroupFixture);
+
+      await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+
+      let punishment = await group.read.getPunishmentDetails([user2.account.address]);
+      expect(punishment[6]).to.equal(startDate + WEEK); // dueDate
+
+      await time.increaseTo(startDate + WEEK + 1n);
+      await group.write.processExpiredPunishment([user2.account.address]);
+
+      punishment = await group.read.getPunishmentDetails([user2.account.address]);
+      expect(punishment[0]).to.equal(3); // Ban
+      expect(punishment[1]).to.equal("Fine unpaid by deadline");
+      expect(punishment[5]).to.equal(startDate + 3n * WEEK);
+
+      const member = await group.read.getMemberDetails([user2.account.address]);
+      expect(member[1]).to.be.false;
+    });
+
+    it("Should not escalate a fine paid on time", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deploySuspensionGroupFixture);
+
+      await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+      await group.write.payFine({ account: user2.account, value: FINE_AMOUNT });
+
+      await time.increaseTo(startDate + WEEK + 1n);
+      await group.write.processExpiredPunishment([user2.account.address]);
+
+      const member = await group.read.getMemberDetails([user2.account.address]);
+      expect(member[1]).to.be.true;
+    });
+  });
+
+  describe("Punishment history", function () {
+    it("Should keep every punishment with its resolution", async function () {
+      const { group, user1, user2, startDate } = await loadFixture(deploySuspensionGroupFixture);
+
+      await group.write.punishMember([user2.account.address, 2, "Late"], { account: user1.account }); // Fine
+      await group.write.payFine({ account: user2.account, value: FINE_AMOUNT });
+      await group.write.suspendMember([user2.account.address, 1n, "Misconduct"], { account: user1.account });
+
+      const history = await group.read.getPunishmentHistory([user2.account.address]);
+      expect(history).to.have.lengthOf(2);
+
+      expect(history[0].action).to.equal(2); // Fine
+      expect(history[0].isActive).to.be.false;
+      expect(history[0].resolvedAt > 0n).to.be.true;
+
+      expect(history[1].action).to.equal(3); // Ban
+      expect(history[1].isActive).to.be.true;
+      expect(history[1].expiresAt).to.equal(startDate + WEEK);
+    });
+  });
+});
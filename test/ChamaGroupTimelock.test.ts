@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import { encodeFunctionData, getAddress, keccak256 } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { deployGroupWithConfig, PROPOSAL_TYPE } from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const DELAY = 4n * DAY;
+
+// Admin changes wait four days; user2 and user3 are members
+async function deployTimelockedGroupFixture() {
+  const fixture = await deployGroupWithConfig({ timelockDelay: DELAY });
+  const { group, user2, user3, startDate } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+
+  const addAdminId = keccak256(
+    encodeFunctionData({ abi: group.abi, functionName: "addAdmin", args: [user2.account.address] })
+  );
+  return { ...fixture, addAdminId };
+}
+
+describe("ChamaGroup - Timelock", function () {
+  it("Should schedule an action and only run it after the delay", async function () {
+    const { group, user1, user2, addAdminId, publicClient } = await loadFixture(deployTimelockedGroupFixture);
+
+    const hash = await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    expect(await group.read.admins([user2.account.address])).to.be.false;
+
+    const scheduled = await group.getEvents.ActionScheduled();
+    expect((scheduled[0].args as any).actionId).to.equal(addAdminId);
+    expect((scheduled[0].args as any).scheduler).to.equal(getAddress(user1.account.address));
+
+    const [scheduler, eta] = await group.read.scheduledActions([addAdminId]);
+    expect(scheduler).to.equal(getAddress(user1.account.address));
+
+    await expect(
+      group.write.addAdmin([user2.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Timelock not expired");
+
+    await time.increaseTo(eta);
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    expect(await group.read.admins([user2.account.address])).to.be.true;
+    expect((await group.read.scheduledActions([addAdminId]))[1]).to.equal(0n);
+  });
+
+  it("Should cancel a scheduled action through a member vote", async function () {
+    const { group, user1, user2, user3, addAdminId, publicClient } = await loadFixture(deployTimelockedGroupFixture);
+
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.CancelScheduledAction, "0x0000000000000000000000000000000000000000", BigInt(addAdminId), "Object"],
+      { account: user3.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user2, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+
+    // A passed vote blocks the action even before the proposal is executed
+    await time.increase(DELAY);
+    await expect(
+      group.write.addAdmin([user2.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Cancellation vote passed");
+
+    const hash = await group.write.executeProposal([proposalId], { account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    const cancelled = await group.getEvents.ScheduledActionCancelled();
+    expect((cancelled[0].args as any).actionId).to.equal(addAdminId);
+
+    // Calling again starts a fresh delay
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    expect(await group.read.admins([user2.account.address])).to.be.false;
+  });
+
+  it("Should not let a later cancellation vote replace one that passed", async function () {
+    const { group, user1, user2, user3, addAdminId } = await loadFixture(deployTimelockedGroupFixture);
+
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.CancelScheduledAction, "0x0000000000000000000000000000000000000000", BigInt(addAdminId), "Object"],
+      { account: user3.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    for (const voter of [user1, user2, user3]) {
+      await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+    }
+
+    await time.increase(3n * DAY + 1n);
+    await expect(
+      group.write.createProposal(
+        [PROPOSAL_TYPE.CancelScheduledAction, "0x0000000000000000000000000000000000000000", BigInt(addAdminId), "Again"],
+        { account: user1.account }
+      )
+    ).to.be.rejectedWith("Cancellation vote passed");
+    expect((await group.read.scheduledActions([addAdminId]))[2]).to.equal(proposalId);
+  });
+
+  it("Should hold the action while a cancellation vote is open and run it if the vote fails", async function () {
+    const { group, user1, user2, user3, addAdminId } = await loadFixture(deployTimelockedGroupFixture);
+
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await time.increase(DELAY - 2n * DAY);
+    await group.write.createProposal(
+      [PROPOSAL_TYPE.CancelScheduledAction, "0x0000000000000000000000000000000000000000", BigInt(addAdminId), "Object"],
+      { account: user3.account }
+    );
+    const proposalId = await group.read.proposalCounter();
+    await group.write.voteOnProposal([proposalId, true], { account: user3.account });
+    await group.write.voteOnProposal([proposalId, false], { account: user1.account });
+    await group.write.voteOnProposal([proposalId, false], { account: user2.account });
+
+    await time.increase(2n * DAY);
+    await expect(
+      group.write.addAdmin([user2.account.address], { account: user1.account })
+    ).to.be.rejectedWith("Cancellation vote active");
+
+    await time.increase(DAY + 1n);
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    expect(await group.read.admins([user2.account.address])).to.be.true;
+  });
+
+  it("Should schedule a stale action afresh instead of running it", async function () {
+    const { group, user1, user2, addAdminId, publicClient } = await loadFixture(deployTimelockedGroupFixture);
+
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    const [, eta] = await group.read.scheduledActions([addAdminId]);
+    const window = await group.read.SCHEDULED_ACTION_WINDOW();
+
+    await time.increaseTo(eta + window + 1n);
+    const hash = await group.write.addAdmin([user2.account.address], { account: user1.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    expect(await group.read.admins([user2.account.address])).to.be.false;
+
+    const expired = await group.getEvents.ScheduledActionExpired();
+    expect((expired[0].args as any).actionId).to.equal(addAdminId);
+    expect((await group.read.scheduledActions([addAdminId]))[1]).to.equal(BigInt(await time.latest()) + DELAY);
+
+    await time.increase(DELAY);
+    await group.write.addAdmin([user2.account.address], { account: user1.account });
+    expect(await group.read.admins([user2.account.address])).to.be.true;
+  });
+
+  it("Should only accept cancellation votes for pending actions", async function () {
+    const { group, user3, addAdminId } = await loadFixture(deployTimelockedGroupFixture);
+
+    await expect(
+      group.write.createProposal(
+        [PROPOSAL_TYPE.CancelScheduledAction, "0x0000000000000000000000000000000000000000", BigInt(addAdminId), "Object"],
+        { account: user3.account }
+      )
+    ).to.be.rejectedWith("No scheduled action");
+  });
+
+  it("Should timelock manual punishments", async function () {
+    const { group, user1, user3 } = await loadFixture(deployTimelockedGroupFixture);
+
+    await group.write.punishMember([user3.account.address, 3, "Fraud"], { account: user1.account }); // Ban
+    expect((await group.read.punishments([user3.account.address]))[2]).to.be.false;
+
+    await time.increase(DELAY);
+    await group.write.punishMember([user3.account.address, 3, "Fraud"], { account: user1.account });
+    expect((await group.read.punishments([user3.account.address]))[2]).to.be.true;
+  });
+
+  it("Should timelock suspensions", async function () {
+    const { group, user1, user3 } = await loadFixture(deployTimelockedGroupFixture);
+
+    await group.write.suspendMember([user3.account.address, 2n, "Misconduct"], { account: user1.account });
+    expect((await group.read.getMemberDetails([user3.account.address]))[1]).to.be.true;
+
+    await time.increase(DELAY);
+    await group.write.suspendMember([user3.account.address, 2n, "Misconduct"], { account: user1.account });
+    expect((await group.read.getMemberDetails([user3.account.address]))[1]).to.be.false;
+  });
+});
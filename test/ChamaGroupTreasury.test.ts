@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { getAddress, parseEther } from "viem";
+import { time, loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  deployGroupWithConfig,
+  FINE_AMOUNT,
+  PROPOSAL_TYPE,
+  ONE_WEEK_IN_SECS,
+} from "./fixtures/chamaFixtures";
+
+const DAY = 24n * 60n * 60n;
+const WEEK = BigInt(ONE_WEEK_IN_SECS);
+
+// Period 0 paid out to user1, leaving two paid fines in the treasury
+async function deployTreasuryGroupFixture() {
+  const fixture = await deployGroupWithConfig({});
+  const { group, user1, user2, user3, startDate, groupConfig } = fixture;
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+  await group.write.setPayoutQueue(
+    [[user1.account.address, user2.account.address, user3.account.address]],
+    { account: user1.account }
+  );
+
+  for (const member of [user1, user2, user3]) {
+    await group.write.contribute({ account: member.account, value: groupConfig.contributionAmount });
+  }
+  await group.write.processRotationPayout({ account: user1.account });
+
+  for (const member of [user2, user3]) {
+    await group.write.punishMember([member.account.address, 2, "Late"], { account: user1.account }); // Fine
+    await group.write.payFine({ account: member.account, value: FINE_AMOUNT });
+  }
+  return fixture;
+}
+
+type TreasuryGroup = Awaited<ReturnType<typeof deployTreasuryGroupFixture>>;
+
+async function proposeSpend(fixture: TreasuryGroup, recipient: `0x${string}`, amount: bigint) {
+  const { group, user1, user2, user3 } = fixture;
+
+  await group.write.createProposal([PROPOSAL_TYPE.TreasurySpend, recipient, amount, "Buy land"], {
+    account: user1.account,
+  });
+  const proposalId = await group.read.proposalCounter();
+
+  for (const voter of [user1, user2, user3]) {
+    await group.write.voteOnProposal([proposalId, true], { account: voter.account });
+  }
+  await time.increase(3n * DAY + 1n);
+  return proposalId;
+}
+
+describe("ChamaGroup - Treasury Spends", function () {
+  it("Should pay an approved spend and record it in the ledger", async function () {
+    const fixture = await loadFixture(deployTreasuryGroupFixture);
+    const { group, user1, user4, publicClient } = fixture;
+    const amount = parseEther("0.015");
+
+    const proposalId = await proposeSpend(fixture, user4.account.address, amount);
+    const balanceBefore = await publicClient.getBalance({ address: user4.account.address });
+
+    await group.write.executeProposal([proposalId], { account: user1.account });
+
+    const balanceAfter = await publicClient.getBalance({ address: user4.account.address });
+    expect(balanceAfter - balanceBefore).to.equal(amount);
+    expect(await group.read.totalFunds()).to.equal(FINE_AMOUNT * 2n - amount);
+
+    const ledger = await group.read.getSpendLedger();
+    expect(ledger).to.have.lengthOf(1);
+    expect(ledger[0].proposalId).to.equal(proposalId);
+    expect(ledger[0].recipient).to.equal(getAddress(user4.account.address));
+    expect(ledger[0].amount).to.equal(amount);
+    expect(ledger[0].description).to.equal("Buy land");
+
+    const events = await group.getEvents.TreasurySpent();
+    expect((events[0].args as any).amount).to.equal(amount);
+  });
+
+  it("Should reject spends above the spendable funds", async function () {
+    const fixture = await loadFixture(deployTreasuryGroupFixture);
+    const { group, user1, user4 } = fixture;
+
+    const proposalId = await proposeSpend(fixture, user4.account.address, FINE_AMOUNT * 3n);
+
+    await expect(
+      group.write.executeProposal([proposalId], { account: user1.account })
+    ).to.be.rejectedWith("Exceeds spendable funds");
+  });
+
+  it("Should keep back contributions owed to current and prepaid payouts", async function () {
+    const { group, user2, user3, startDate, groupConfig } = await loadFixture(deployTreasuryGroupFixture);
+
+    expect(await group.read.getSpendableFunds()).to.equal(FINE_AMOUNT * 2n);
+
+    // Period 1 hasn't been paid out yet and user3 has paid ahead for periods 1 and 2
+    await time.increaseTo(startDate + WEEK + DAY);
+    await group.write.contribute({ account: user2.account, value: groupConfig.contributionAmount });
+    await group.write.prepayContributions([2n], {
+      account: user3.account,
+      value: groupConfig.contributionAmount * 2n,
+    });
+
+    expect(await group.read.totalFunds()).to.equal(FINE_AMOUNT * 2n + groupConfig.contributionAmount * 3n);
+    expect(await group.read.getSpendableFunds()).to.equal(FINE_AMOUNT * 2n);
+  });
+
+  it("Should validate spend proposals when created", async function () {
+    const { group, user1 } = await loadFixture(deployTreasuryGroupFixture);
+    const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+    await expect(
+      group.write.createProposal([PROPOSAL_TYPE.TreasurySpend, zeroAddress, FINE_AMOUNT, "Buy land"], {
+        account: user1.account,
+      })
+    ).to.be.rejectedWith("Invalid spend recipient");
+
+    await expect(
+      group.write.createProposal([PROPOSAL_TYPE.TreasurySpend, user1.account.address, 0n, "Buy land"], {
+        account: user1.account,
+      })
+    ).to.be.rejectedWith("Invalid spend amount");
+  });
+});
@@ -131,7 +131,7 @@ it("Should reject contributions outside window + grace period", async function (
 
   const contributionWindow = await group.read.contributionWindow();
   const gracePeriod = await group.read.gracePeriod();
-  const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+  const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
 
   const testTime = startDate + contributionWindow + gracePeriod + 1n;
   console.log("🧾 testTime (after grace period):", testTime.toString());
@@ -164,7 +164,7 @@ describe("Contribution with Missed Previous Periods", function () {
     const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
     
     // Move to period 1, within contribution window
-    const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+    const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
     const contributionWindow = await group.read.contributionWindow();
     const period1Start = startDate + PERIOD_DURATION;
     const testTime = period1Start + (contributionWindow / 2n); // Middle of window
@@ -185,7 +185,7 @@ describe("Contribution with Missed Previous Periods", function () {
 
 it("Should detect and punish missed contribution in previous period", async function () {
   const { group, user1, user2, startDate, groupConfig, publicClient } = await setupGroupWithMembers();
-  const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+  const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
   const contributionWindow = await group.read.contributionWindow();
   const gracePeriod = await group.read.gracePeriod();
   
@@ -240,7 +240,7 @@ it("Should detect and punish missed contribution in previous period", async func
 it("Should ban member after exceeding maximum missed contributions", async function () {
   const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
 
-  const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+  const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
   const contributionWindow = await group.read.contributionWindow();
   const gracePeriod = await group.read.gracePeriod();
   const MAX_MISSED = await group.read.MAX_MISSED_CONTRIBUTIONS();
@@ -328,7 +328,7 @@ it("Should ban member after exceeding maximum missed contributions", async funct
  it("Should not double-punish for same missed period - WITH DEBUGGING", async function () {
     const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
     
-    const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+    const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
     const contributionWindow = await group.read.contributionWindow();
     const gracePeriod = await group.read.gracePeriod();
     
@@ -403,7 +403,7 @@ it("Should ban member after exceeding maximum missed contributions", async funct
 it("Should check multiple missed periods in one contribution call", async function () {
   const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
   
-  const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+  const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
   const contributionWindow = await group.read.contributionWindow();
   const gracePeriod = await group.read.gracePeriod();
   
@@ -439,7 +439,7 @@ it("Should check multiple missed periods in one contribution call", async functi
   it("Should get missed periods for debugging", async function () {
     const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
     
-    const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+    const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
     const contributionWindow = await group.read.contributionWindow();
     const gracePeriod = await group.read.gracePeriod();
     
@@ -477,7 +477,7 @@ it("Should check multiple missed periods in one contribution call", async functi
 it("Should reject contribution if outside window", async function () {
   const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
 
-  const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+  const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
   const contributionWindow = await group.read.contributionWindow();
   const gracePeriod = await group.read.gracePeriod();
 
@@ -506,7 +506,7 @@ it("Should reject contribution if outside window", async function () {
 it("Should accept contribution during grace period", async function () {
   const { group, user1, startDate, groupConfig } = await setupGroupWithMembers();
 
-  const PERIOD_DURATION = await group.read.PERIOD_DURATION();
+  const PERIOD_DURATION = await group.read.getPeriodDuration([0n]);
   const contributionWindow = await group.read.contributionWindow();
   const gracePeriod = await group.read.gracePeriod();
 
@@ -901,7 +901,8 @@ it("Should accept contribution during grace period", async function () {
     it("Should allow creator to transfer role", async function () {
       const { group, user1, user2, startDate } = await setupGroupWithMembers();
 
-      await group.write.transferCreator([user2.account.address], { account: user1.account });
+      await group.write.transferCreator([user2.account.address, false], { account: user1.account });
+      await group.write.acceptCreatorTransfer({ account: user2.account });
 
       expect(await group.read.creator()).to.equal(getAddress(user2.account.address));
       expect(await group.read.admins([user2.account.address])).to.be.true;
@@ -911,7 +912,7 @@ it("Should accept contribution during grace period", async function () {
       const { group, user1, startDate } = await setupGroupWithMembers();
 
       await expect(
-        group.write.transferCreator([zeroAddress], { account: user1.account })
+        group.write.transferCreator([zeroAddress, false], { account: user1.account })
       ).to.be.rejectedWith("Invalid address");
     });
 
@@ -919,7 +920,7 @@ it("Should accept contribution during grace period", async function () {
       const { group, user1, user2, startDate } = await setupGroupWithMembers();
 
       await expect(
-        group.write.transferCreator([user2.account.address], { account: user2.account })
+        group.write.transferCreator([user2.account.address, false], { account: user2.account })
       ).to.be.rejectedWith("Only creator");
     });
   });
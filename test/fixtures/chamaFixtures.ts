@@ -3,7 +3,15 @@ import {
   loadFixture,
 } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import hre from "hardhat";
-import { parseEther } from "viem";
+import type { ArtifactsMap } from "hardhat/types/artifacts";
+import { maxUint256, parseEther, parseUnits, type ContractFunctionArgs } from "viem";
+
+// The ChamaStructs.GroupConfig tuple as ChamaFactory.createGroup takes it
+export type GroupConfig = ContractFunctionArgs<
+  ArtifactsMap["ChamaFactory"]["abi"],
+  "nonpayable",
+  "createGroup"
+>[0];
 
 // Constants
 export const ONE_WEEK_IN_SECS = 7 * 24 * 60 * 60;
@@ -12,14 +20,124 @@ export const MIN_CONTRIBUTION = parseEther("0.001");
 export const DEFAULT_CONTRIBUTION = parseEther("0.1");
 export const FINE_AMOUNT = parseEther("0.01");
 
+// Mirrors ChamaStructs.ContributionFrequency
+export const CONTRIBUTION_FREQUENCY = {
+  None: 0,
+  Daily: 1,
+  Weekly: 2,
+  Biweekly: 3,
+  Monthly: 4,
+} as const;
+
+// Mirrors ChamaStructs.FineType
+export const FINE_TYPE = {
+  Fixed: 0,
+  Percentage: 1,
+} as const;
+
+// Mirrors ChamaStructs.PayoutOrdering
+export const PAYOUT_ORDERING = {
+  Fixed: 0,
+  RandomDraw: 1,
+  Auction: 2,
+  Vote: 3,
+} as const;
+
+export const SHORTFALL_POLICY = {
+  PayPartial: 0,
+  Wait: 1,
+  TopUpFromReserve: 2,
+} as const;
+
+export const PROPOSAL_TYPE = {
+  None: 0,
+  CancelPunishment: 1,
+  AddAdmin: 2,
+  RemoveAdmin: 3,
+  KickMember: 4,
+  ChangeContributionAmount: 5,
+  ChangeGracePeriod: 6,
+  ChangeContributionWindow: 7,
+  ChangeMaxMembers: 8,
+  ChangeProposalDuration: 9,
+  ChangeApprovalRequired: 10,
+  TreasurySpend: 11,
+  ApproveLoan: 12,
+  EmergencyWithdraw: 13,
+  CancelScheduledAction: 14,
+  ElectChair: 15,
+  ElectTreasurer: 16,
+  ElectSecretary: 17,
+  RemoveOfficial: 18,
+  ReplaceCreator: 19,
+} as const;
+
+export const ROLE = {
+  None: 0,
+  Chair: 1,
+  Treasurer: 2,
+  Secretary: 3,
+} as const;
+
+// Escalation policy that keeps the single punishmentMode behaviour
+export const NO_ESCALATION = {
+  warningThreshold: 0n,
+  fineThreshold: 0n,
+  banThreshold: 0n,
+  decayPeriods: 0n,
+  suspensionPeriods: 0n,
+  fineDuePeriods: 0n,
+};
+
+// Loan policy with table banking disabled
+export const NO_LOANS = {
+  maxLoanBps: 0n,
+  interestBps: 0n,
+  repaymentPeriods: 0n,
+};
+
+// 6-decimal stablecoin amounts for token-based groups
+export const TOKEN_CONTRIBUTION = parseUnits("100", 6);
+export const TOKEN_FINE_AMOUNT = parseUnits("5", 6);
+
 // Fixtures
+
+// Deploys the modules and the ChamaGroup implementation that the factory clones
+export async function deployGroupImplementation() {
+  const membership = await hre.viem.deployContract("ChamaGroupMembership");
+  const administration = await hre.viem.deployContract("ChamaGroupAdministration");
+  const contributions = await hre.viem.deployContract("ChamaGroupContributions");
+  const discipline = await hre.viem.deployContract("ChamaGroupDiscipline");
+  const payouts = await hre.viem.deployContract("ChamaGroupPayouts");
+  const slots = await hre.viem.deployContract("ChamaGroupSlots");
+  const lending = await hre.viem.deployContract("ChamaGroupLending");
+  const governance = await hre.viem.deployContract("ChamaGroupGovernance");
+  const settlement = await hre.viem.deployContract("ChamaGroupSettlement");
+  const views = await hre.viem.deployContract("ChamaGroupViews");
+
+  return hre.viem.deployContract("ChamaGroup", [
+    membership.address,
+    administration.address,
+    contributions.address,
+    discipline.address,
+    payouts.address,
+    slots.address,
+    lending.address,
+    governance.address,
+    settlement.address,
+    views.address,
+  ]);
+}
+
 export async function deployFactoryFixture() {
   const [owner, user1, user2, user3, user4, user6,user7] = await hre.viem.getWalletClients();
-  const factory = await hre.viem.deployContract("ChamaFactory", [owner.account.address]);
+  const implementation = await deployGroupImplementation();
+  const factory = await hre.viem.deployContract("ChamaFactory", [owner.account.address, implementation.address]);
   const publicClient = await hre.viem.getPublicClient();
 
   return {
     factory,
+    implementation,
     owner,
     user1,
     user2,
@@ -32,22 +150,24 @@ export async function deployFactoryFixture() {
 }
 
 // Helper to build a valid group config
-function buildGroupConfig({
+export function buildGroupConfig({
   creator,
   startDate,
   endDate,
+  overrides = {},
 }: {
   creator: `0x${string}`;
   startDate: bigint;
   endDate: bigint;
-}) {
+  overrides?: Partial<GroupConfig>;
+}): GroupConfig {
   return {
     name: "Test Chama Group",
     contributionAmount: DEFAULT_CONTRIBUTION,
     maxMembers: 10n,
     startDate,
     endDate,
-    contributionFrequency: "weekly",
+    contributionFrequency: CONTRIBUTION_FREQUENCY.Weekly as number,
     punishmentMode: 3, // Fine
     approvalRequired: false,
     emergencyWithdrawAllowed: true,
@@ -55,10 +175,91 @@ function buildGroupConfig({
     contributionToken: "0x0000000000000000000000000000000000000000" as `0x${string}`,
     contributionWindow: 5n * 24n * 60n * 60n,  // 5 days
     gracePeriod: 2n * 24n * 60n * 60n,         // 2 days
+    fineType: FINE_TYPE.Fixed as number,
+    fineValue: FINE_AMOUNT,
+    escalation: NO_ESCALATION,
+    lateFeeBps: 0n,
+    loans: NO_LOANS,
+    requiredGuarantors: 0n,
+    joinDeposit: 0n,
+    distributeSlashedDeposits: false,
+    payoutOrdering: PAYOUT_ORDERING.Fixed as number,
+    shortfallPolicy: SHORTFALL_POLICY.PayPartial as number,
+    netDebtsFromPayouts: false,
+    emergencyApprovalThreshold: 2n,
+    adminApprovalThreshold: 1n,
+    timelockDelay: 0n,
+    creatorInactivityPeriods: 0n,
+    ...overrides,
+  };
+}
+
+// Deploys a group through the factory with custom config fields
+export async function deployGroupWithConfig(
+  overrides: Partial<GroupConfig>,
+  startDate?: bigint
+) {
+  return createGroupWithConfig(await loadFixture(deployFactoryFixture), overrides, startDate);
+}
+
+async function createGroupWithConfig(
+  base: Awaited<ReturnType<typeof deployFactoryFixture>>,
+  overrides: Partial<GroupConfig>,
+  startDate?: bigint
+) {
+  const { factory, owner, user1, user2, user3, user4, user6, user7, publicClient } = base;
+
+  const currentTime = BigInt(await time.latest());
+  const start = startDate ?? currentTime + BigInt(ONE_WEEK_IN_SECS);
+  const end = start + BigInt(ONE_MONTH_IN_SECS * 6);
+
+  const groupConfig = buildGroupConfig({
+    creator: user1.account.address as `0x${string}`,
+    startDate: start,
+    endDate: end,
+    overrides,
+  });
 
+  const hash = await factory.write.createGroup([groupConfig], {
+    account: user1.account,
+  });
+  await publicClient.waitForTransactionReceipt({ hash });
+
+  const groupEvents = await factory.getEvents.GroupCreated();
+  const groupAddress = (groupEvents[groupEvents.length - 1].args as any).groupAddress;
+  const group = await hre.viem.getContractAt("ChamaGroup", groupAddress);
+
+  return {
+    factory,
+    group,
+    groupAddress,
+    groupConfig,
+    owner,
+    user1,
+    user2,
+    user3,
+    user4,
+    user6,
+    user7,
+    publicClient,
+    startDate: start,
+    endDate: end,
   };
 }
 
+// Fines the payers pay straight into the reserve, which treasury spends and loans draw on
+export async function payFinesIntoReserve(
+  group: Awaited<ReturnType<typeof deployGroupWithConfig>>["group"],
+  admin: Awaited<ReturnType<typeof deployFactoryFixture>>["user1"],
+  payers: Awaited<ReturnType<typeof deployFactoryFixture>>["user1"][]
+) {
+  const fine = await group.read.getFineAmount();
+  for (const payer of payers) {
+    await group.write.punishMember([payer.account.address, 2, "Late"], { account: admin.account }); // Fine
+    await group.write.payFine({ account: payer.account, value: fine });
+  }
+}
+
 export async function deployGroupFixture() {
   const { factory, owner, user1, user2, user3, user4, user6, user7, publicClient } =
     await loadFixture(deployFactoryFixture);
@@ -146,4 +347,30 @@ export async function setupGroupWithContributions() {
     value: groupConfig.contributionAmount
   });
   return fixture;
-}
\ No newline at end of file
+}
+
+// Group denominated in a 6-decimal token, with members funded and approved
+export async function deployTokenGroupFixture() {
+  const base = await loadFixture(deployFactoryFixture);
+  const token = await hre.viem.deployContract("MockERC20", ["Mock USD", "mUSD", 6]);
+
+  const fixture = await createGroupWithConfig(base, {
+    contributionToken: token.address,
+    contributionAmount: TOKEN_CONTRIBUTION,
+    fineType: FINE_TYPE.Fixed,
+    fineValue: TOKEN_FINE_AMOUNT,
+  });
+  const { group, user1, user2, user3, publicClient, startDate } = fixture;
+
+  for (const user of [user1, user2, user3]) {
+    await token.write.mint([user.account.address, TOKEN_CONTRIBUTION * 100n]);
+    const hash = await token.write.approve([group.address, maxUint256], { account: user.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  await time.increaseTo(startDate);
+  await group.write.joinGroup({ account: user2.account });
+  await group.write.joinGroup({ account: user3.account });
+
+  return { ...fixture, token };
+}